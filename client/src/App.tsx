@@ -14,9 +14,13 @@ import LandingPage from "@/pages/landing";
 import DashboardPage from "@/pages/dashboard";
 import NewAuditPage from "@/pages/new-audit";
 import AuditDetailPage from "@/pages/audit-detail";
+import AuditComparePage from "@/pages/audit-compare";
 import AuditsListPage from "@/pages/audits-list";
 import SettingsPage from "@/pages/settings";
 import AdminPage from "@/pages/admin";
+import RuleProfilesPage from "@/pages/rule-profiles";
+import ProjectsPage from "@/pages/projects";
+import ProjectDetailPage from "@/pages/project-detail";
 
 function AuthenticatedRoutes() {
   const sidebarStyle = {
@@ -37,8 +41,12 @@ function AuthenticatedRoutes() {
             <Switch>
               <Route path="/" component={DashboardPage} />
               <Route path="/audits/new" component={NewAuditPage} />
+              <Route path="/audits/:id/compare/:otherId" component={AuditComparePage} />
               <Route path="/audits/:id" component={AuditDetailPage} />
               <Route path="/audits" component={AuditsListPage} />
+              <Route path="/projects/:id" component={ProjectDetailPage} />
+              <Route path="/projects" component={ProjectsPage} />
+              <Route path="/rule-profiles" component={RuleProfilesPage} />
               <Route path="/settings" component={SettingsPage} />
               <Route path="/admin" component={AdminPage} />
               <Route component={NotFound} />
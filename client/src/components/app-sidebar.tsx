@@ -14,13 +14,15 @@ import {
   SidebarFooter,
   SidebarHeader,
 } from "@/components/ui/sidebar";
-import { Search, LayoutDashboard, FileText, Plus, Settings, Shield, Coins } from "lucide-react";
+import { Search, LayoutDashboard, FileText, Plus, Settings, Shield, Coins, ListChecks, FolderKanban } from "lucide-react";
 import type { UserProfile } from "@shared/schema";
 
 const menuItems = [
   { title: "Dashboard", href: "/", icon: LayoutDashboard },
+  { title: "Projects", href: "/projects", icon: FolderKanban },
   { title: "New Audit", href: "/audits/new", icon: Plus },
   { title: "All Audits", href: "/audits", icon: FileText },
+  { title: "Rule Profiles", href: "/rule-profiles", icon: ListChecks },
   { title: "Settings", href: "/settings", icon: Settings },
 ];
 
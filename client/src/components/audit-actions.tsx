@@ -0,0 +1,97 @@
+import type { MouseEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, RotateCcw, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SeoAudit } from "@shared/schema";
+
+interface AuditActionProps {
+  auditId: number;
+  size?: "default" | "sm";
+}
+
+// The buttons also sit inside clickable audit rows, so clicks must not reach the surrounding link.
+function stop(e: MouseEvent) {
+  e.preventDefault();
+  e.stopPropagation();
+}
+
+export function CancelAuditButton({ auditId, size = "default" }: AuditActionProps) {
+  const { toast } = useToast();
+
+  const cancelAudit = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/audits/${auditId}/cancel`);
+      return res.json() as Promise<{ status: "cancelled" | "cancelling" }>;
+    },
+    onSuccess: ({ status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      toast({
+        title: status === "cancelled" ? "Audit cancelled" : "Stopping audit",
+        description: status === "cancelled"
+          ? "Your credit has been refunded."
+          : "The crawl will stop shortly and your credit will be refunded.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      className="gap-2"
+      disabled={cancelAudit.isPending}
+      onClick={(e) => {
+        stop(e);
+        cancelAudit.mutate();
+      }}
+      data-testid={`button-cancel-audit-${auditId}`}
+    >
+      {cancelAudit.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4" />}
+      Cancel
+    </Button>
+  );
+}
+
+export function RerunAuditButton({ auditId, size = "default" }: AuditActionProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const rerunAudit = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/audits/${auditId}/rerun`);
+      return res.json() as Promise<SeoAudit>;
+    },
+    onSuccess: (audit) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      navigate(`/audits/${audit.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      className="gap-2"
+      disabled={rerunAudit.isPending}
+      onClick={(e) => {
+        stop(e);
+        rerunAudit.mutate();
+      }}
+      data-testid={`button-rerun-audit-${auditId}`}
+    >
+      {rerunAudit.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+      Re-run
+    </Button>
+  );
+}
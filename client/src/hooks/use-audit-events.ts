@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { AuditEvent, JobProgress } from "@shared/schema";
+
+export type CrawledPageEvent = Extract<AuditEvent, { type: "page" }>;
+type IssuesEvent = Extract<AuditEvent, { type: "issues" }>;
+type FixEvent = Extract<AuditEvent, { type: "fix" }>;
+
+export interface AuditEventState {
+  progress: JobProgress | null;
+  /** Most recent pages first. */
+  pages: CrawledPageEvent[];
+  issues: IssuesEvent | null;
+  fix: FixEvent | null;
+  errors: string[];
+}
+
+const MAX_LOGGED_PAGES = 200;
+
+const emptyState: AuditEventState = { progress: null, pages: [], issues: null, fix: null, errors: [] };
+
+/**
+ * Follows `/api/audits/:id/events` while an audit is queued or running. EventSource reconnects on
+ * its own and resumes from the last event id; the stream ends once the job finishes.
+ */
+export function useAuditEvents(auditId: string | undefined, enabled: boolean): AuditEventState {
+  const [state, setState] = useState<AuditEventState>(emptyState);
+
+  useEffect(() => {
+    if (!auditId || !enabled) return;
+    setState(emptyState);
+
+    const source = new EventSource(`/api/audits/${auditId}/events`, { withCredentials: true });
+    const listen = <T extends AuditEvent["type"]>(type: T, apply: (event: Extract<AuditEvent, { type: T }>) => void) => {
+      source.addEventListener(type, (e) => {
+        // Connection failures also arrive as "error" events, but without data.
+        const { data } = e as MessageEvent;
+        if (data) apply(JSON.parse(data));
+      });
+    };
+
+    listen("progress", ({ type, ...progress }) => setState((s) => ({ ...s, progress })));
+    listen("page", (page) => setState((s) => ({ ...s, pages: [page, ...s.pages].slice(0, MAX_LOGGED_PAGES) })));
+    listen("issues", (issues) => setState((s) => ({ ...s, issues })));
+    listen("fix", (fix) => setState((s) => ({ ...s, fix })));
+    listen("error", (event) => setState((s) => ({ ...s, errors: [...s.errors, event.message] })));
+
+    source.addEventListener("end", () => {
+      source.close();
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    });
+
+    return () => source.close();
+  }, [auditId, enabled]);
+
+  return state;
+}
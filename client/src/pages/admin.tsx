@@ -17,6 +17,7 @@ import {
   Ban,
   CheckCircle2,
   TrendingUp,
+  Cpu,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -44,6 +45,9 @@ interface AdminAudit {
   overallScore: number | null;
   pagesCrawled: number | null;
   issuesFound: number | null;
+  aiPromptTokens: number | null;
+  aiCompletionTokens: number | null;
+  aiCostUsd: number | null;
   createdAt: string;
 }
 
@@ -53,6 +57,14 @@ interface AdminStats {
   completedAudits: number;
   avgScore: number;
   totalCreditsUsed: number;
+  totalAiTokens: number;
+  totalAiCostUsd: number;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
 }
 
 export default function AdminPage() {
@@ -121,12 +133,18 @@ export default function AdminPage() {
         <h1 className="text-2xl font-bold" data-testid="text-admin-title">Admin Panel</h1>
       </div>
 
-      <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
         <AdminStatCard icon={<Users className="w-4 h-4" />} label="Total Users" value={statsLoading ? null : String(stats?.totalUsers ?? 0)} testId="stat-admin-users" />
         <AdminStatCard icon={<FileText className="w-4 h-4" />} label="Total Audits" value={statsLoading ? null : String(stats?.totalAudits ?? 0)} testId="stat-admin-audits" />
         <AdminStatCard icon={<CheckCircle2 className="w-4 h-4" />} label="Completed" value={statsLoading ? null : String(stats?.completedAudits ?? 0)} testId="stat-admin-completed" />
         <AdminStatCard icon={<BarChart3 className="w-4 h-4" />} label="Avg Score" value={statsLoading ? null : stats?.avgScore ? `${stats.avgScore}` : "N/A"} testId="stat-admin-score" />
         <AdminStatCard icon={<TrendingUp className="w-4 h-4" />} label="Credits Used" value={statsLoading ? null : String(stats?.totalCreditsUsed ?? 0)} testId="stat-admin-credits-used" />
+        <AdminStatCard
+          icon={<Cpu className="w-4 h-4" />}
+          label="AI Tokens"
+          value={statsLoading ? null : `${formatTokens(stats?.totalAiTokens ?? 0)}${stats?.totalAiCostUsd ? ` · $${stats.totalAiCostUsd.toFixed(2)}` : ""}`}
+          testId="stat-admin-ai-tokens"
+        />
       </div>
 
       <Tabs defaultValue="users">
@@ -212,6 +230,12 @@ export default function AdminPage() {
                         <p className="text-xs text-muted-foreground">
                           User: {audit.userId} | {new Date(audit.createdAt).toLocaleDateString()}
                         </p>
+                        {(audit.aiPromptTokens || audit.aiCompletionTokens) ? (
+                          <p className="text-xs text-muted-foreground" data-testid={`text-admin-audit-tokens-${audit.id}`}>
+                            AI: {formatTokens(audit.aiPromptTokens ?? 0)} prompt + {formatTokens(audit.aiCompletionTokens ?? 0)} completion tokens
+                            {audit.aiCostUsd != null && <> · ${audit.aiCostUsd.toFixed(4)}</>}
+                          </p>
+                        ) : null}
                       </div>
                       <div className="flex items-center gap-2 shrink-0">
                         {audit.overallScore != null && (
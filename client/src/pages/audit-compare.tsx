@@ -0,0 +1,226 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, ArrowRight, CheckCircle2, XCircle, AlertTriangle, EyeOff, FilePlus, FileMinus, TrendingUp, TrendingDown, Minus } from "lucide-react";
+
+type ScoreKey = "overall" | "meta" | "content" | "performance" | "technical";
+
+interface AuditSnapshot {
+  id: number;
+  url: string;
+  createdAt: string;
+  completedAt: string | null;
+  scores: Record<ScoreKey, number | null>;
+}
+
+interface ComparedIssue {
+  issueType: string;
+  severity: string;
+  title: string;
+  description: string;
+  pageUrl: string | null;
+  fingerprint: string;
+  previousSeverity?: string;
+}
+
+interface AuditComparison {
+  base: AuditSnapshot;
+  target: AuditSnapshot;
+  scoreDeltas: Record<ScoreKey, number | null>;
+  issues: { new: ComparedIssue[]; resolved: ComparedIssue[]; suppressed: ComparedIssue[]; regressed: ComparedIssue[]; unchanged: number };
+  pages: { added: string[]; removed: string[]; unchanged: number };
+}
+
+const scoreLabels: Record<ScoreKey, string> = {
+  overall: "Overall",
+  meta: "Meta Tags",
+  content: "Content",
+  performance: "Performance",
+  technical: "Technical",
+};
+
+export default function AuditComparePage() {
+  const { id, otherId } = useParams<{ id: string; otherId: string }>();
+
+  const { data: comparison, isLoading, error } = useQuery<AuditComparison>({
+    queryKey: ["/api/audits", id, "compare", otherId],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid sm:grid-cols-5 gap-4">
+          {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-24" />)}
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="py-16 text-center space-y-4">
+            <XCircle className="w-12 h-12 text-destructive mx-auto" />
+            <p className="text-sm text-muted-foreground">{(error as Error | null)?.message ?? "These audits can't be compared."}</p>
+            <Link href={`/audits/${id}`}>
+              <Button variant="outline">Back to audit</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { base, target, scoreDeltas, issues, pages } = comparison;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center gap-3 min-w-0">
+        <Link href={`/audits/${id}`}>
+          <Button variant="ghost" size="icon" data-testid="button-back-compare">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+        </Link>
+        <div className="min-w-0">
+          <h1 className="text-xl font-bold truncate" data-testid="text-compare-title">Compare audits</h1>
+          <p className="text-xs text-muted-foreground mt-1 flex flex-wrap items-center gap-1.5">
+            <Link href={`/audits/${base.id}`} className="underline">#{base.id}</Link>
+            <span>{new Date(base.createdAt).toLocaleString()}</span>
+            <ArrowRight className="w-3 h-3" />
+            <Link href={`/audits/${target.id}`} className="underline">#{target.id}</Link>
+            <span>{new Date(target.createdAt).toLocaleString()}</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        {(Object.keys(scoreLabels) as ScoreKey[]).map((key) => (
+          <ScoreDeltaCard key={key} label={scoreLabels[key]} before={base.scores[key]} after={target.scores[key]} delta={scoreDeltas[key]} />
+        ))}
+      </div>
+
+      <div className="grid sm:grid-cols-4 gap-4">
+        <StatCard label="New issues" value={issues.new.length} className="text-red-600 dark:text-red-400" testId="text-new-issues" />
+        <StatCard label="Resolved issues" value={issues.resolved.length} className="text-emerald-600 dark:text-emerald-400" testId="text-resolved-issues" />
+        <StatCard label="Got worse" value={issues.regressed.length} className="text-amber-600 dark:text-amber-400" testId="text-regressed-issues" />
+        <StatCard label="Unchanged" value={issues.unchanged} className="text-muted-foreground" testId="text-unchanged-issues" />
+      </div>
+
+      <Tabs defaultValue="new" className="w-full">
+        <TabsList className="w-full grid grid-cols-5">
+          <TabsTrigger value="new" data-testid="tab-new">New ({issues.new.length})</TabsTrigger>
+          <TabsTrigger value="resolved" data-testid="tab-resolved">Resolved ({issues.resolved.length})</TabsTrigger>
+          <TabsTrigger value="regressed" data-testid="tab-regressed">Worse ({issues.regressed.length})</TabsTrigger>
+          <TabsTrigger value="suppressed" data-testid="tab-suppressed">Suppressed ({issues.suppressed.length})</TabsTrigger>
+          <TabsTrigger value="pages" data-testid="tab-pages-diff">Pages</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="new" className="mt-4">
+          <IssueList issues={issues.new} empty="No new issues since the earlier audit" icon={<XCircle className="w-4 h-4 text-red-600 dark:text-red-400" />} />
+        </TabsContent>
+        <TabsContent value="resolved" className="mt-4">
+          <IssueList issues={issues.resolved} empty="Nothing was resolved since the earlier audit" icon={<CheckCircle2 className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />} />
+        </TabsContent>
+        <TabsContent value="regressed" className="mt-4">
+          <IssueList issues={issues.regressed} empty="No issue got more severe" icon={<AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400" />} />
+        </TabsContent>
+        <TabsContent value="suppressed" className="mt-4">
+          <IssueList issues={issues.suppressed} empty="No issue was suppressed since the earlier audit" icon={<EyeOff className="w-4 h-4 text-muted-foreground" />} />
+        </TabsContent>
+        <TabsContent value="pages" className="mt-4">
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <p className="text-sm text-muted-foreground">{pages.unchanged} page(s) were crawled in both audits.</p>
+              <PageList label="Added pages" urls={pages.added} icon={<FilePlus className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />} testId="list-added-pages" />
+              <PageList label="Removed pages" urls={pages.removed} icon={<FileMinus className="w-4 h-4 text-red-600 dark:text-red-400" />} testId="list-removed-pages" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function ScoreDeltaCard({ label, before, after, delta }: { label: string; before: number | null; after: number | null; delta: number | null }) {
+  const color = delta === null || delta === 0
+    ? "text-muted-foreground"
+    : delta > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400";
+  const Icon = delta === null || delta === 0 ? Minus : delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">{label}</span>
+        <p className={`text-2xl font-bold flex items-center gap-1 ${color}`} data-testid={`text-delta-${label.toLowerCase().replace(/\s/g, "-")}`}>
+          <Icon className="w-4 h-4" />
+          {delta === null ? "–" : `${delta > 0 ? "+" : ""}${delta}`}
+        </p>
+        <p className="text-xs text-muted-foreground">{before ?? "–"} → {after ?? "–"}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function StatCard({ label, value, className, testId }: { label: string; value: number; className: string; testId: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4 text-center">
+        <p className={`text-2xl font-bold ${className}`} data-testid={testId}>{value}</p>
+        <p className="text-xs text-muted-foreground mt-1">{label}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function IssueList({ issues, empty, icon }: { issues: ComparedIssue[]; empty: string; icon: React.ReactNode }) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        {issues.length > 0 ? (
+          <div className="space-y-3">
+            {issues.map((issue) => (
+              <div key={issue.fingerprint} className="flex items-start gap-3" data-testid={`issue-${issue.fingerprint}`}>
+                <div className="mt-0.5 shrink-0">{icon}</div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium">{issue.title}</p>
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {issue.previousSeverity ? `${issue.previousSeverity} → ${issue.severity}` : issue.severity}
+                    </Badge>
+                  </div>
+                  {issue.pageUrl && <p className="text-xs text-muted-foreground break-all">{issue.pageUrl}</p>}
+                  <p className="text-xs text-muted-foreground mt-0.5">{issue.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">{empty}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PageList({ label, urls, icon, testId }: { label: string; urls: string[]; icon: React.ReactNode; testId: string }) {
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <h3 className="text-sm font-semibold flex items-center gap-2">{icon}{label} ({urls.length})</h3>
+      {urls.length > 0 ? (
+        <ul className="space-y-1">
+          {urls.map((url) => (
+            <li key={url} className="text-xs text-muted-foreground break-all">{url}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">None</p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
-import { useQuery } from "@tanstack/react-query";
-import { useParams, Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuditEvents, type CrawledPageEvent } from "@/hooks/use-audit-events";
+import { CancelAuditButton, RerunAuditButton } from "@/components/audit-actions";
 import {
   ArrowLeft,
   ExternalLink,
@@ -24,15 +33,85 @@ import {
   Wrench,
   Copy,
   Check,
+  Link2Off,
+  EyeOff,
+  ChevronDown,
+  Trash2,
+  GitCompare,
 } from "lucide-react";
-import type { SeoAudit, AuditPage } from "@shared/schema";
+import type { AiFix, SeoAudit, AuditPage, AuditLink, IssueOccurrence, IssueSuppression, PageScreenshot, PageScreenshots, ScreenshotHighlightKind, SuppressionScope } from "@shared/schema";
 import { useEffect, useState } from "react";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
-interface JobProgress {
-  stage: string;
-  message: string;
-  percent: number;
+interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null;
+}
+
+interface PagePerformance {
+  lcpMs: number | null;
+  cls: number | null;
+  tbtMs: number | null;
+  transferBytes: number;
+  requestCount: number;
+}
+
+interface PageMobile {
+  hasDeviceWidthViewport: boolean;
+  horizontalOverflow: boolean;
+  smallTextElements: number;
+  overlappingTapTargets: unknown[];
+}
+
+type ScreenshotVariant = keyof PageScreenshots;
+
+const highlightStyles: Record<ScreenshotHighlightKind, { label: string; className: string }> = {
+  h1: { label: "Duplicate H1", className: "border-amber-500 bg-amber-500/10" },
+  image_missing_alt: { label: "Image missing alt text", className: "border-red-500 bg-red-500/10" },
+  horizontal_overflow: { label: "Wider than the mobile screen", className: "border-blue-500 bg-blue-500/10" },
+};
+
+interface RuleInfo {
+  id: string;
+  title: string;
+  category: string;
+  severity: string;
+  penalty: number;
+  docs: string;
+}
+
+interface ReportIssue {
+  issueType: string;
+  severity: string;
+  title: string;
+  description: string;
+  recommendedFix?: string;
+  pageUrl?: string | null;
+  occurrences?: IssueOccurrence[];
+  fingerprint?: string;
+}
+
+interface SuppressedReportIssue extends ReportIssue {
+  suppression: Pick<IssueSuppression, "id" | "scope" | "reason" | "urlPattern">;
+}
+
+const suppressionScopeLabels: Record<SuppressionScope, string> = {
+  url: "This page only",
+  pattern: "Pages matching a URL pattern",
+  site: "The whole site",
+};
+
+function isIgnoredNextRun(issue: ReportIssue, suppressions: IssueSuppression[]): boolean {
+  return suppressions.some(
+    (s) => s.issueType === issue.issueType && (s.scope === "site" || (s.scope === "url" && s.fingerprint === issue.fingerprint))
+  );
+}
+
+function crawlStatusColor(page: CrawledPageEvent): string {
+  if (page.error || page.httpStatus === null || page.httpStatus >= 400) return "text-red-600 dark:text-red-400";
+  if (page.httpStatus >= 300) return "text-amber-600 dark:text-amber-400";
+  return "text-emerald-600 dark:text-emerald-400";
 }
 
 export default function AuditDetailPage() {
@@ -50,10 +129,13 @@ export default function AuditDetailPage() {
     },
   });
 
-  const { data: progressData } = useQuery<{ status: string; progress: JobProgress | null }>({
+  const liveEvents = useAuditEvents(id, !!audit && (audit.status === "pending" || audit.status === "processing"));
+  const isQueued = audit?.status === "pending" && (!liveEvents.progress || liveEvents.progress.stage === "queued");
+
+  const { data: queueData } = useQuery<{ queuePosition: number | null }>({
     queryKey: ["/api/audits", id, "progress"],
-    refetchInterval: audit && (audit.status === "pending" || audit.status === "processing") ? 2000 : false,
-    enabled: !!audit && (audit.status === "pending" || audit.status === "processing"),
+    refetchInterval: isQueued ? 5000 : false,
+    enabled: isQueued,
   });
 
   const { data: pages } = useQuery<AuditPage[]>({
@@ -61,6 +143,34 @@ export default function AuditDetailPage() {
     enabled: !!audit && audit.status === "completed",
   });
 
+  const { data: rules } = useQuery<RuleInfo[]>({
+    queryKey: ["/api/rules"],
+    staleTime: Infinity,
+  });
+  const rulesById = new Map((rules ?? []).map((r) => [r.id, r]));
+
+  const { data: links } = useQuery<AuditLink[]>({
+    queryKey: ["/api/audits", id, "links"],
+    enabled: !!audit && audit.status === "completed",
+  });
+  const brokenLinks = links?.filter((l) => l.broken) ?? [];
+
+  const { data: suppressions } = useQuery<IssueSuppression[]>({
+    queryKey: ["/api/audits", id, "suppressions"],
+    enabled: !!audit && audit.status === "completed",
+  });
+  const [suppressTarget, setSuppressTarget] = useState<ReportIssue | null>(null);
+  const [showSuppressed, setShowSuppressed] = useState(false);
+  const [, navigate] = useLocation();
+
+  const { data: allAudits } = useQuery<SeoAudit[]>({
+    queryKey: ["/api/audits"],
+    enabled: !!audit && audit.status === "completed",
+  });
+  const comparableAudits = (allAudits ?? []).filter(
+    (a) => a.id !== audit?.id && a.domain === audit?.domain && a.status === "completed"
+  );
+
   useEffect(() => {
     if (audit?.status === "completed") {
       queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
@@ -74,6 +184,7 @@ export default function AuditDetailPage() {
       domain: audit.domain,
       createdAt: audit.createdAt,
       completedAt: audit.completedAt,
+      ruleProfile: audit.ruleProfile,
       scores: {
         overall: audit.overallScore,
         meta: audit.metaScore,
@@ -85,6 +196,7 @@ export default function AuditDetailPage() {
       pagesCrawled: audit.pagesCrawled,
       issuesFound: audit.issuesFound,
       fixesGenerated: audit.fixesGenerated,
+      fixesCached: audit.fixesCached,
       results: audit.results,
       pages: pages ?? [],
     };
@@ -127,8 +239,9 @@ export default function AuditDetailPage() {
 
   const isPending = audit.status === "pending" || audit.status === "processing";
   const isFailed = audit.status === "failed";
+  const isCancelled = audit.status === "cancelled";
   const results = audit.results as any;
-  const progress = progressData?.progress;
+  const progress = liveEvents.progress;
 
   const stages = [
     { key: "queued", label: "Queued" },
@@ -161,13 +274,40 @@ export default function AuditDetailPage() {
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Created {new Date(audit.createdAt).toLocaleString()}
+              {audit.projectId && (
+                <>
+                  {" "}· <Link href={`/projects/${audit.projectId}`} className="underline" data-testid="link-audit-project">View project</Link>
+                </>
+              )}
+              {audit.ruleProfile && (
+                <span data-testid="text-rule-profile"> · Rule profile {audit.ruleProfile.name} (v{audit.ruleProfile.version})</span>
+              )}
             </p>
           </div>
         </div>
+        {isPending && <CancelAuditButton auditId={audit.id} />}
         {audit.status === "completed" && (
-          <Button variant="outline" className="gap-2" onClick={downloadReport} data-testid="button-download-report">
-            <Download className="w-4 h-4" /> Download JSON
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <RerunAuditButton auditId={audit.id} />
+            {comparableAudits.length > 0 && (
+              <Select onValueChange={(otherId) => navigate(`/audits/${audit.id}/compare/${otherId}`)}>
+                <SelectTrigger className="w-auto gap-2" data-testid="select-compare-audit">
+                  <GitCompare className="w-4 h-4" />
+                  <SelectValue placeholder="Compare with..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {comparableAudits.map((a) => (
+                    <SelectItem key={a.id} value={String(a.id)}>
+                      #{a.id} · {new Date(a.createdAt).toLocaleDateString()} · {a.overallScore ?? "–"}/100
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" className="gap-2" onClick={downloadReport} data-testid="button-download-report">
+              <Download className="w-4 h-4" /> Download JSON
+            </Button>
+          </div>
         )}
       </div>
 
@@ -180,6 +320,11 @@ export default function AuditDetailPage() {
               <p className="text-sm text-muted-foreground">
                 {progress?.message || "Our AI is crawling and evaluating your site."}
               </p>
+              {isQueued && queueData?.queuePosition && (
+                <p className="text-xs text-muted-foreground" data-testid="text-queue-position">
+                  Position {queueData.queuePosition} in the queue
+                </p>
+              )}
             </div>
 
             <div className="max-w-md mx-auto space-y-3">
@@ -207,9 +352,50 @@ export default function AuditDetailPage() {
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center justify-center gap-2" data-testid="live-audit-stats">
+              {liveEvents.pages.length > 0 && (
+                <Badge variant="secondary">{liveEvents.pages[0].crawled} pages crawled</Badge>
+              )}
+              {liveEvents.issues && (
+                <>
+                  <Badge variant="secondary">{liveEvents.issues.total} issues found</Badge>
+                  {liveEvents.issues.critical > 0 && (
+                    <Badge variant="destructive">{liveEvents.issues.critical} critical</Badge>
+                  )}
+                </>
+              )}
+              {liveEvents.fix && (
+                <Badge variant="secondary" data-testid="text-live-fix-count">
+                  AI fix {liveEvents.fix.index} of {liveEvents.fix.total}
+                </Badge>
+              )}
+            </div>
+
+            {liveEvents.errors.map((message, i) => (
+              <p key={i} className="max-w-xl mx-auto text-sm text-destructive flex items-center gap-2">
+                <XCircle className="w-4 h-4 shrink-0" /> {message}
+              </p>
+            ))}
+
+            {liveEvents.pages.length > 0 && (
+              <div className="max-w-xl mx-auto">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Crawl log</p>
+                <div className="h-48 overflow-y-auto rounded-md border bg-muted/30 p-2 font-mono text-xs space-y-1" data-testid="list-crawl-log">
+                  {liveEvents.pages.map((page) => (
+                    <div key={`${page.crawled}-${page.url}`} className="flex items-center gap-2 min-w-0">
+                      <span className={`shrink-0 w-9 text-right ${crawlStatusColor(page)}`}>
+                        {page.httpStatus ?? "ERR"}
+                      </span>
+                      <span className="truncate" title={page.error ?? page.url}>{page.url}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
               <RefreshCw className="w-3 h-3 animate-spin" />
-              Auto-refreshing...
+              Live updates
             </div>
           </CardContent>
         </Card>
@@ -225,15 +411,29 @@ export default function AuditDetailPage() {
                 We couldn't analyze this URL. Your credit has been refunded.
               </p>
             </div>
-            <Link href="/audits/new">
-              <Button variant="outline">Try Again</Button>
-            </Link>
+            <RerunAuditButton auditId={audit.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {isCancelled && (
+        <Card>
+          <CardContent className="py-16 text-center space-y-4">
+            <XCircle className="w-12 h-12 text-muted-foreground mx-auto" />
+            <div>
+              <h2 className="text-lg font-semibold">Audit Cancelled</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                This audit was stopped before it finished. Your credit has been refunded.
+              </p>
+            </div>
+            <RerunAuditButton auditId={audit.id} />
           </CardContent>
         </Card>
       )}
 
       {audit.status === "completed" && (
         <>
+          <SuppressDialog auditId={id} issue={suppressTarget} onClose={() => setSuppressTarget(null)} />
           <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4">
             <ScoreCard label="Overall" score={audit.overallScore ?? 0} icon={<Zap className="w-4 h-4" />} large />
             <ScoreCard label="Meta Tags" score={audit.metaScore ?? 0} icon={<Tag className="w-4 h-4" />} />
@@ -259,6 +459,11 @@ export default function AuditDetailPage() {
               <CardContent className="p-4 text-center">
                 <p className="text-2xl font-bold" data-testid="text-fixes-generated">{audit.fixesGenerated ?? 0}</p>
                 <p className="text-xs text-muted-foreground mt-1">AI Fixes Generated</p>
+                {(audit.fixesCached ?? 0) > 0 && (
+                  <p className="text-[10px] text-muted-foreground" data-testid="text-fixes-cached">
+                    {(audit.fixesGenerated ?? 0) - (audit.fixesCached ?? 0)} new · {audit.fixesCached} reused from cache
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -278,10 +483,11 @@ export default function AuditDetailPage() {
           )}
 
           <Tabs defaultValue="issues" className="w-full">
-            <TabsList className="w-full grid grid-cols-4">
+            <TabsList className="w-full grid grid-cols-5">
               <TabsTrigger value="issues" data-testid="tab-issues">Issues</TabsTrigger>
               <TabsTrigger value="fixes" data-testid="tab-fixes">AI Fixes</TabsTrigger>
               <TabsTrigger value="pages" data-testid="tab-pages">Pages</TabsTrigger>
+              <TabsTrigger value="links" data-testid="tab-links">Links</TabsTrigger>
               <TabsTrigger value="details" data-testid="tab-details">Details</TabsTrigger>
             </TabsList>
 
@@ -290,26 +496,77 @@ export default function AuditDetailPage() {
                 <CardContent className="p-6">
                   {results?.issues?.length > 0 ? (
                     <div className="space-y-3">
-                      {results.issues.map((issue: any, i: number) => (
-                        <IssueItem key={i} issue={issue} />
+                      {results.issues.map((issue: ReportIssue, i: number) => (
+                        <IssueItem
+                          key={i}
+                          issue={issue}
+                          rule={rulesById.get(issue.issueType)}
+                          ignored={isIgnoredNextRun(issue, suppressions ?? [])}
+                          onIgnore={issue.fingerprint ? () => setSuppressTarget(issue) : undefined}
+                        />
                       ))}
                     </div>
                   ) : (
                     <p className="text-sm text-muted-foreground text-center py-8">No issues found</p>
                   )}
+
+                  {((results?.suppressedIssues?.length ?? 0) > 0 || (suppressions?.length ?? 0) > 0) && (
+                    <Collapsible open={showSuppressed} onOpenChange={setShowSuppressed} className="mt-6 border-t pt-4">
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" className="gap-2 px-2" data-testid="button-toggle-suppressed">
+                          <EyeOff className="w-4 h-4" />
+                          Suppressed issues ({results?.suppressedIssues?.length ?? 0})
+                          <ChevronDown className={`w-4 h-4 transition-transform ${showSuppressed ? "rotate-180" : ""}`} />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="space-y-4 pt-3">
+                        <p className="text-xs text-muted-foreground">
+                          Suppressed issues are not counted in the scores.
+                        </p>
+                        {(results?.suppressedIssues ?? []).map((issue: SuppressedReportIssue, i: number) => (
+                          <div key={i} className="opacity-70 space-y-1">
+                            <IssueItem issue={issue} rule={rulesById.get(issue.issueType)} />
+                            <p className="text-xs text-muted-foreground pl-7">
+                              Ignored ({suppressionScopeLabels[issue.suppression.scope]}
+                              {issue.suppression.urlPattern ? `: ${issue.suppression.urlPattern}` : ""}): {issue.suppression.reason}
+                            </p>
+                          </div>
+                        ))}
+                        {suppressions && suppressions.length > 0 && (
+                          <SuppressionList suppressions={suppressions} auditId={id} rulesById={rulesById} />
+                        )}
+                      </CollapsibleContent>
+                    </Collapsible>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
 
             <TabsContent value="fixes" className="mt-4 space-y-4">
               {results?.fixes?.length > 0 ? (
-                results.fixes.map((fix: any, i: number) => (
+                results.fixes.map((fix: AiFix, i: number) => (
                   <Card key={i}>
                     <CardContent className="p-6 space-y-4">
                       <div className="flex items-center gap-2 text-sm font-medium">
                         <Globe className="w-4 h-4 text-muted-foreground" />
                         <span className="truncate">{fix.pageUrl}</span>
+                        {fix.validation && (
+                          <Badge
+                            variant="secondary"
+                            className={`ml-auto shrink-0 ${fix.validation.status === "passed" ? "text-emerald-600 dark:text-emerald-400" : "text-amber-600 dark:text-amber-400"}`}
+                            data-testid={`badge-fix-validation-${i}`}
+                          >
+                            {fix.validation.status === "passed" ? "Checks passed" : "Needs review"}
+                          </Badge>
+                        )}
                       </div>
+                      {fix.validation?.status === "failed" && fix.validation.errors.length > 0 && (
+                        <ul className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5 list-disc pl-5" data-testid={`list-fix-validation-errors-${i}`}>
+                          {fix.validation.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
                       <div className="grid gap-3">
                         <FixField label="Optimized Title" value={fix.optimizedTitle} index={i * 10 + 1} copiedIndex={copiedIndex} onCopy={copyToClipboard} />
                         <FixField label="Meta Description" value={fix.optimizedMetaDescription} index={i * 10 + 2} copiedIndex={copiedIndex} onCopy={copyToClipboard} />
@@ -366,13 +623,101 @@ export default function AuditDetailPage() {
                         </a>
                       </div>
                       <div className="flex flex-wrap gap-2">
+                        {page.httpStatus != null && (
+                          <Badge
+                            variant={page.httpStatus >= 400 ? "destructive" : "secondary"}
+                            className="text-xs"
+                            data-testid={`badge-http-status-${page.id}`}
+                          >
+                            HTTP {page.httpStatus}
+                          </Badge>
+                        )}
+                        {!page.indexable && (
+                          <Badge variant="destructive" className="text-xs" data-testid={`badge-noindex-${page.id}`}>noindex</Badge>
+                        )}
+                        {page.contentType && (
+                          <Badge variant="outline" className="text-xs">{page.contentType.split(";")[0]}</Badge>
+                        )}
                         <Badge variant="secondary" className="text-xs">{page.wordCount ?? 0} words</Badge>
                         <Badge variant="secondary" className="text-xs">{page.internalLinks ?? 0} internal links</Badge>
+                        <Badge variant="secondary" className="text-xs">{page.inboundLinks ?? 0} inbound links</Badge>
+                        {page.clickDepth != null && (
+                          <Badge variant="secondary" className="text-xs" data-testid={`badge-click-depth-${page.id}`}>
+                            Depth {page.clickDepth}
+                          </Badge>
+                        )}
+                        {page.pageRank != null && (
+                          <Badge variant="secondary" className="text-xs" data-testid={`badge-page-rank-${page.id}`}>
+                            PageRank {(page.pageRank * pages.length).toFixed(2)}x
+                          </Badge>
+                        )}
                         <Badge variant="secondary" className="text-xs">{page.images ?? 0} images</Badge>
                         {(page.issues as any[])?.length > 0 && (
                           <Badge variant="destructive" className="text-xs">{(page.issues as any[]).length} issues</Badge>
                         )}
                       </div>
+                      {page.performance ? (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground" data-testid={`page-performance-${page.id}`}>
+                          {page.performanceScore != null ? (
+                            <span className={`font-medium ${page.performanceScore >= 80 ? "text-emerald-600 dark:text-emerald-400" : page.performanceScore >= 60 ? "text-amber-600 dark:text-amber-400" : "text-red-600 dark:text-red-400"}`}>
+                              Performance {page.performanceScore}
+                            </span>
+                          ) : (
+                            <span className="font-medium">Performance n/a</span>
+                          )}
+                          {(() => {
+                            const perf = page.performance as PagePerformance;
+                            return (
+                              <>
+                                <span>LCP {perf.lcpMs != null ? `${(perf.lcpMs / 1000).toFixed(1)}s` : "n/a"}</span>
+                                <span>CLS {perf.cls ?? "n/a"}</span>
+                                <span>TBT {perf.tbtMs != null ? `${perf.tbtMs}ms` : "n/a"}</span>
+                                <span>{(perf.transferBytes / 1024).toFixed(0)} KB</span>
+                                <span>{perf.requestCount} requests</span>
+                              </>
+                            );
+                          })()}
+                        </div>
+                      ) : null}
+                      {page.screenshots ? (
+                        <div className="flex gap-2">
+                          {(["desktop", "mobile"] as const).map((variant) => {
+                            const shot = page.screenshots?.[variant];
+                            return shot ? (
+                              <ScreenshotPreview key={variant} auditId={id} pageId={page.id} pageUrl={page.url} variant={variant} screenshot={shot} />
+                            ) : null;
+                          })}
+                        </div>
+                      ) : null}
+                      {page.mobile ? (
+                        <div className="flex flex-wrap gap-2" data-testid={`page-mobile-${page.id}`}>
+                          {(() => {
+                            const mobile = page.mobile as PageMobile;
+                            const problems = [
+                              !mobile.hasDeviceWidthViewport && "No responsive viewport",
+                              mobile.horizontalOverflow && "Scrolls horizontally",
+                              mobile.smallTextElements > 0 && `${mobile.smallTextElements} small text elements`,
+                              mobile.overlappingTapTargets.length > 0 && `${mobile.overlappingTapTargets.length} overlapping tap targets`,
+                            ].filter((p): p is string => !!p);
+                            return problems.length > 0 ? (
+                              problems.map((problem) => (
+                                <Badge key={problem} variant="outline" className="text-xs">Mobile: {problem}</Badge>
+                              ))
+                            ) : (
+                              <Badge variant="outline" className="text-xs">Mobile friendly</Badge>
+                            );
+                          })()}
+                        </div>
+                      ) : null}
+                      {(page.redirectChain as RedirectHop[] | null)?.length ? (
+                        <div className="text-xs text-muted-foreground space-y-0.5" data-testid={`redirect-chain-${page.id}`}>
+                          {(page.redirectChain as RedirectHop[]).map((hop, i) => (
+                            <p key={i} className="truncate">
+                              <span className="font-mono">{hop.status}</span> {hop.url} → {hop.location}
+                            </p>
+                          ))}
+                        </div>
+                      ) : null}
                     </CardContent>
                   </Card>
                 ))
@@ -385,6 +730,49 @@ export default function AuditDetailPage() {
               )}
             </TabsContent>
 
+            <TabsContent value="links" className="mt-4 space-y-3">
+              <p className="text-xs text-muted-foreground" data-testid="text-links-summary">
+                {links?.length ?? 0} unique link targets checked, {brokenLinks.length} broken
+              </p>
+              {brokenLinks.length > 0 ? (
+                brokenLinks.map((link) => (
+                  <Card key={link.id}>
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate" data-testid={`text-broken-link-${link.id}`}>{link.url}</p>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Linked from {link.sources.length} {link.sources.length === 1 ? "place" : "places"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Badge variant="outline" className="text-xs">{link.internal ? "Internal" : "External"}</Badge>
+                          <Badge variant="destructive" className="text-xs">{link.status ?? link.error ?? "No response"}</Badge>
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        {link.sources.map((source, i) => (
+                          <div key={i} className="flex items-start gap-2 text-xs">
+                            <span className="truncate">{source.pageUrl}</span>
+                            {source.anchorText && (
+                              <span className="text-muted-foreground truncate">"{source.anchorText}"</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <Link2Off className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
+                    <p className="text-sm text-muted-foreground">No broken links found</p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
             <TabsContent value="details" className="mt-4">
               <Card>
                 <CardContent className="p-6 space-y-6">
@@ -401,6 +789,19 @@ export default function AuditDetailPage() {
                       </div>
                     </div>
                   ))}
+                  {results?.sitemap?.sitemaps?.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold mb-2">Sitemap Coverage</h3>
+                      <div className="space-y-3 text-xs">
+                        <p className="text-muted-foreground">
+                          {results.sitemap.totalUrls} URLs found in {results.sitemap.sitemaps.join(", ")}
+                        </p>
+                        <UrlList label="In sitemap but never linked" urls={results.sitemap.unlinkedUrls} testId="list-sitemap-unlinked" />
+                        <UrlList label="In sitemap but not crawled" urls={results.sitemap.notCrawledUrls} testId="list-sitemap-not-crawled" />
+                        <UrlList label="Crawled but missing from sitemap" urls={results.sitemap.missingFromSitemap} testId="list-sitemap-missing" />
+                      </div>
+                    </div>
+                  )}
                   {results?.recommendations?.length > 0 && (
                     <div>
                       <h3 className="text-sm font-semibold mb-2">Recommendations</h3>
@@ -424,6 +825,75 @@ export default function AuditDetailPage() {
   );
 }
 
+function ScreenshotPreview({ auditId, pageId, pageUrl, variant, screenshot }: { auditId: string; pageId: number; pageUrl: string; variant: ScreenshotVariant; screenshot: PageScreenshot }) {
+  const src = `/api/audits/${auditId}/pages/${pageId}/screenshot?variant=${variant}`;
+  const kinds = Array.from(new Set(screenshot.highlights.map((h) => h.kind)));
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className={`relative overflow-hidden rounded-md border bg-muted hover-elevate ${variant === "mobile" ? "w-14 h-24" : "w-32 h-20"}`}
+          data-testid={`button-screenshot-${variant}-${pageId}`}
+        >
+          <img src={src} alt={`${variant} screenshot of ${pageUrl}`} loading="lazy" className="w-full h-full object-cover object-top" />
+          {screenshot.highlights.length > 0 && (
+            <span className="absolute bottom-1 right-1 rounded bg-background/90 px-1 text-[10px] font-medium">{screenshot.highlights.length}</span>
+          )}
+        </button>
+      </DialogTrigger>
+      <DialogContent className={variant === "mobile" ? "max-w-md" : "max-w-5xl"}>
+        <DialogHeader>
+          <DialogTitle className="text-sm font-medium truncate">{pageUrl} ({variant})</DialogTitle>
+        </DialogHeader>
+        {kinds.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-xs">
+            {kinds.map((kind) => (
+              <span key={kind} className="flex items-center gap-1.5">
+                <span className={`inline-block w-3 h-3 rounded-sm border-2 ${highlightStyles[kind].className}`} />
+                {highlightStyles[kind].label}
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="max-h-[70vh] overflow-y-auto rounded-md border">
+          <div className="relative overflow-hidden">
+            <img src={src} alt={`${variant} screenshot of ${pageUrl}`} className="w-full" />
+            {screenshot.highlights.map((box, i) => (
+              <div
+                key={i}
+                title={`${highlightStyles[box.kind].label}: ${box.selector}`}
+                className={`absolute border-2 ${highlightStyles[box.kind].className}`}
+                style={{
+                  left: `${(box.x / screenshot.width) * 100}%`,
+                  top: `${(box.y / screenshot.height) * 100}%`,
+                  width: `${(box.width / screenshot.width) * 100}%`,
+                  height: `${(box.height / screenshot.height) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function UrlList({ label, urls, testId }: { label: string; urls: string[]; testId: string }) {
+  if (!urls?.length) return null;
+  return (
+    <div className="space-y-1" data-testid={testId}>
+      <span className="font-medium">{label} ({urls.length})</span>
+      <ul className="space-y-0.5 text-muted-foreground">
+        {urls.slice(0, 20).map((u) => (
+          <li key={u} className="truncate">{u}</li>
+        ))}
+        {urls.length > 20 && <li>and {urls.length - 20} more</li>}
+      </ul>
+    </div>
+  );
+}
+
 function FixField({ label, value, index, copiedIndex, onCopy }: { label: string; value: string; index: number; copiedIndex: number | null; onCopy: (text: string, idx: number) => void }) {
   if (!value) return null;
   return (
@@ -461,27 +931,222 @@ function ScoreCard({ label, score, icon, large }: { label: string; score: number
   );
 }
 
-function IssueItem({ issue }: { issue: { severity: string; title: string; description: string; recommendedFix?: string } }) {
+function SuppressDialog({ auditId, issue, onClose }: { auditId: string; issue: ReportIssue | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<SuppressionScope>("url");
+  const [urlPattern, setUrlPattern] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!issue) return;
+    setScope(issue.pageUrl ? "url" : "site");
+    setReason("");
+    try {
+      setUrlPattern(issue.pageUrl ? `${new URL(issue.pageUrl).pathname.replace(/[^/]*$/, "")}*` : "");
+    } catch {
+      setUrlPattern("");
+    }
+  }, [issue]);
+
+  const createSuppression = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/audits/${auditId}/suppressions`, {
+        fingerprint: issue!.fingerprint,
+        scope,
+        urlPattern: scope === "pattern" ? urlPattern : undefined,
+        reason,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits", auditId, "suppressions"] });
+      toast({ title: "Issue ignored", description: "It will be left out of the scores from the next audit of this site." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!issue} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Ignore "{issue?.title}"</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>Ignore on</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as SuppressionScope)}>
+              <SelectTrigger data-testid="select-suppression-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {issue?.pageUrl && <SelectItem value="url">{suppressionScopeLabels.url}</SelectItem>}
+                {issue?.pageUrl && <SelectItem value="pattern">{suppressionScopeLabels.pattern}</SelectItem>}
+                <SelectItem value="site">{suppressionScopeLabels.site}</SelectItem>
+              </SelectContent>
+            </Select>
+            {scope === "url" && issue?.pageUrl && <p className="text-xs text-muted-foreground break-all">{issue.pageUrl}</p>}
+          </div>
+          {scope === "pattern" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="suppression-pattern">URL pattern</Label>
+              <Input
+                id="suppression-pattern"
+                value={urlPattern}
+                onChange={(e) => setUrlPattern(e.target.value)}
+                placeholder="/legal/*"
+                data-testid="input-suppression-pattern"
+              />
+              <p className="text-xs text-muted-foreground">* matches anything</p>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="suppression-reason">Reason</Label>
+            <Textarea
+              id="suppression-reason"
+              rows={3}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Legal pages don't need structured data"
+              data-testid="input-suppression-reason"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            className="gap-2"
+            disabled={!reason.trim() || (scope === "pattern" && !urlPattern.trim()) || createSuppression.isPending}
+            onClick={() => createSuppression.mutate()}
+            data-testid="button-confirm-suppression"
+          >
+            {createSuppression.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <EyeOff className="w-4 h-4" />}
+            Ignore issue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SuppressionList({ suppressions, auditId, rulesById }: { suppressions: IssueSuppression[]; auditId: string; rulesById: Map<string, RuleInfo> }) {
+  const { toast } = useToast();
+  const deleteSuppression = useMutation({
+    mutationFn: async (suppressionId: number) => {
+      await apiRequest("DELETE", `/api/suppressions/${suppressionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits", auditId, "suppressions"] });
+      toast({ title: "Suppression removed", description: "The issue will be reported again from the next audit." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">Ignore rules for this site</p>
+      {suppressions.map((s) => (
+        <div key={s.id} className="flex items-start justify-between gap-3 rounded-md bg-muted/50 p-2 text-xs" data-testid={`suppression-${s.id}`}>
+          <div className="min-w-0">
+            <p className="font-medium">
+              {rulesById.get(s.issueType)?.title ?? s.issueType}
+              <span className="font-normal text-muted-foreground">
+                {" "}· {suppressionScopeLabels[s.scope]}{s.urlPattern ? `: ${s.urlPattern}` : ""}
+              </span>
+            </p>
+            <p className="text-muted-foreground">{s.reason}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={deleteSuppression.isPending}
+            onClick={() => deleteSuppression.mutate(s.id)}
+            data-testid={`button-delete-suppression-${s.id}`}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function IssueItem({
+  issue,
+  rule,
+  ignored,
+  onIgnore,
+}: {
+  issue: ReportIssue;
+  rule?: RuleInfo;
+  ignored?: boolean;
+  onIgnore?: () => void;
+}) {
+  const [showOccurrences, setShowOccurrences] = useState(false);
   const severityConfig = {
     critical: { icon: <XCircle className="w-4 h-4" />, color: "text-red-600 dark:text-red-400" },
     warning: { icon: <AlertTriangle className="w-4 h-4" />, color: "text-amber-600 dark:text-amber-400" },
     info: { icon: <Info className="w-4 h-4" />, color: "text-blue-600 dark:text-blue-400" },
   };
   const config = severityConfig[issue.severity as keyof typeof severityConfig] ?? severityConfig.info;
+  const occurrences = issue.occurrences ?? [];
 
   return (
     <div className="flex items-start gap-3">
       <div className={`mt-0.5 shrink-0 ${config.color}`}>{config.icon}</div>
-      <div className="min-w-0">
-        <p className="text-sm font-medium">{issue.title}</p>
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm font-medium">{issue.title}</p>
+          {rule && <Badge variant="outline" className="text-xs capitalize">{rule.category}</Badge>}
+          {rule && rule.penalty > 0 && <span className="text-xs text-muted-foreground">-{rule.penalty} pts</span>}
+          {ignored && <Badge variant="secondary" className="text-xs">Ignored from next audit</Badge>}
+        </div>
         <p className="text-xs text-muted-foreground mt-0.5">{issue.description}</p>
+        {rule?.docs && <p className="text-xs text-muted-foreground/80 mt-1 italic">{rule.docs}</p>}
         {issue.recommendedFix && (
           <p className="text-xs text-primary mt-1 flex items-start gap-1">
             <Wrench className="w-3 h-3 mt-0.5 shrink-0" />
             {issue.recommendedFix}
           </p>
         )}
+        {occurrences.length > 0 && (
+          <div className="mt-2">
+            <button
+              type="button"
+              className="text-xs font-medium text-muted-foreground hover:text-foreground"
+              onClick={() => setShowOccurrences((v) => !v)}
+              data-testid="button-toggle-occurrences"
+            >
+              {showOccurrences ? "Hide" : "Show"} {occurrences.length} element{occurrences.length === 1 ? "" : "s"}
+            </button>
+            {showOccurrences && (
+              <ul className="mt-1 space-y-2">
+                {occurrences.map((occ, i) => (
+                  <li key={i} className="rounded-md bg-muted/50 p-2 text-xs space-y-1" data-testid={`occurrence-${i}`}>
+                    <p className="font-mono text-muted-foreground break-all">{occ.selector}</p>
+                    <pre className="font-mono whitespace-pre-wrap break-all">{occ.snippet}</pre>
+                    {occ.attribute && (
+                      <p className="text-muted-foreground break-all">
+                        <span className="font-mono">{occ.attribute.name}</span>="{occ.attribute.value}"
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
+      {onIgnore && !ignored && (
+        <Button variant="ghost" size="sm" className="shrink-0 gap-1 text-xs" onClick={onIgnore} data-testid="button-ignore-issue">
+          <EyeOff className="w-3 h-3" /> Ignore
+        </Button>
+      )}
     </div>
   );
 }
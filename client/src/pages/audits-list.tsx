@@ -12,7 +12,9 @@ import {
   CheckCircle2,
   AlertCircle,
   Loader2,
+  Ban,
 } from "lucide-react";
+import { CancelAuditButton, RerunAuditButton } from "@/components/audit-actions";
 import type { SeoAudit } from "@shared/schema";
 
 export default function AuditsListPage() {
@@ -74,7 +76,9 @@ function AuditRow({ audit }: { audit: SeoAudit }) {
     processing: { icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />, variant: "secondary" as const, label: "Processing" },
     completed: { icon: <CheckCircle2 className="w-3.5 h-3.5" />, variant: "secondary" as const, label: "Completed" },
     failed: { icon: <AlertCircle className="w-3.5 h-3.5" />, variant: "destructive" as const, label: "Failed" },
+    cancelled: { icon: <Ban className="w-3.5 h-3.5" />, variant: "outline" as const, label: "Cancelled" },
   };
+  const isRunning = audit.status === "pending" || audit.status === "processing";
   const status = statusMap[audit.status as keyof typeof statusMap] ?? statusMap.pending;
 
   const getScoreColor = (s: number) => {
@@ -103,6 +107,7 @@ function AuditRow({ audit }: { audit: SeoAudit }) {
               </div>
             </div>
             <div className="flex items-center gap-3 shrink-0">
+              {isRunning ? <CancelAuditButton auditId={audit.id} size="sm" /> : <RerunAuditButton auditId={audit.id} size="sm" />}
               {audit.overallScore !== null && audit.overallScore !== undefined && (
                 <span className={`text-lg font-bold ${getScoreColor(audit.overallScore)}`}>
                   {audit.overallScore}
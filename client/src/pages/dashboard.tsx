@@ -1,9 +1,11 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Link } from "wouter";
 import {
   Search,
@@ -23,7 +25,7 @@ import {
   Zap,
   Download,
 } from "lucide-react";
-import type { SeoAudit, UserProfile } from "@shared/schema";
+import type { Project, SeoAudit, UserProfile } from "@shared/schema";
 
 export default function DashboardPage() {
   const { user } = useAuth();
@@ -36,9 +38,17 @@ export default function DashboardPage() {
     queryKey: ["/api/audits"],
   });
 
-  const recentAudits = audits?.slice(0, 5) ?? [];
-  const completedAudits = audits?.filter((a) => a.status === "completed") ?? [];
-  const completedCount = completedAudits.length;
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const [projectFilter, setProjectFilter] = useState("all");
+  const scopedAudits = projectFilter === "all" ? audits ?? [] : (audits ?? []).filter((a) => String(a.projectId) === projectFilter);
+
+  const recentAudits = scopedAudits.slice(0, 5);
+  const completedCount = scopedAudits.filter((a) => a.status === "completed").length;
+  // Scores and issues come from each project's latest audit, so frequently audited sites don't dominate.
+  const completedAudits = getLatestAuditPerProject(scopedAudits);
   const avgScore = completedAudits.length
     ? Math.round(
         completedAudits.reduce((sum, a) => sum + (a.overallScore ?? 0), 0) /
@@ -66,11 +76,26 @@ export default function DashboardPage() {
             Here's an overview of your SEO audits
           </p>
         </div>
-        <Link href="/audits/new">
-          <Button className="gap-2" data-testid="button-new-audit">
-            <Plus className="w-4 h-4" /> New Audit
-          </Button>
-        </Link>
+        <div className="flex flex-wrap items-center gap-2">
+          {(projects?.length ?? 0) > 1 && (
+            <Select value={projectFilter} onValueChange={setProjectFilter}>
+              <SelectTrigger className="w-48" data-testid="select-dashboard-project">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All projects</SelectItem>
+                {projects?.map((p) => (
+                  <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Link href="/audits/new">
+            <Button className="gap-2" data-testid="button-new-audit">
+              <Plus className="w-4 h-4" /> New Audit
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -83,7 +108,7 @@ export default function DashboardPage() {
         <StatCard
           icon={<FileText className="w-4 h-4" />}
           label="Total Audits"
-          value={auditsLoading ? null : String(audits?.length ?? 0)}
+          value={auditsLoading ? null : String(scopedAudits.length)}
           testId="stat-total-audits"
         />
         <StatCard
@@ -150,7 +175,9 @@ export default function DashboardPage() {
                   <SeverityBar label="Critical" count={criticalCount} total={totalIssues} colorClass="bg-red-500 dark:bg-red-400" icon={<XCircle className="w-4 h-4 text-red-600 dark:text-red-400" />} />
                   <SeverityBar label="Warning" count={warningCount} total={totalIssues} colorClass="bg-amber-500 dark:bg-amber-400" icon={<AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400" />} />
                   <SeverityBar label="Info" count={infoCount} total={totalIssues} colorClass="bg-blue-500 dark:bg-blue-400" icon={<Info className="w-4 h-4 text-blue-600 dark:text-blue-400" />} />
-                  <p className="text-xs text-muted-foreground text-right">{totalIssues} total issues across {completedCount} audits</p>
+                  <p className="text-xs text-muted-foreground text-right">
+                    {totalIssues} open issues in the latest audit of {completedAudits.length} project{completedAudits.length === 1 ? "" : "s"}
+                  </p>
                 </div>
               )}
             </CardContent>
@@ -229,6 +256,17 @@ export default function DashboardPage() {
   );
 }
 
+function getLatestAuditPerProject(audits: SeoAudit[]): SeoAudit[] {
+  const latest = new Map<string, SeoAudit>();
+  for (const audit of audits) {
+    if (audit.status !== "completed") continue;
+    const key = audit.projectId != null ? `project:${audit.projectId}` : `domain:${audit.domain ?? audit.url}`;
+    const current = latest.get(key);
+    if (!current || new Date(audit.createdAt) > new Date(current.createdAt)) latest.set(key, audit);
+  }
+  return Array.from(latest.values());
+}
+
 function getAvgCategoryScore(audits: SeoAudit[], field: keyof SeoAudit): number {
   const scores = audits.map((a) => (a as any)[field]).filter((s: any) => s != null) as number[];
   return scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
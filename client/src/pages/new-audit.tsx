@@ -9,19 +9,47 @@ import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Form, FormField, FormItem, FormLabel, FormMessage, FormControl } from "@/components/ui/form";
+import { Form, FormField, FormItem, FormLabel, FormMessage, FormControl, FormDescription } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
-import { Search, Globe, Loader2, ArrowLeft, Coins, Sparkles } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Search, Globe, Loader2, ArrowLeft, Coins, Sparkles, ChevronDown, SlidersHorizontal } from "lucide-react";
 import { Link } from "wouter";
 import { isUnauthorizedError } from "@/lib/auth-utils";
-import type { UserProfile } from "@shared/schema";
+import { getPlanLimits, waitStrategies, type AuditConfigInput, type RuleProfile, type UserProfile } from "@shared/schema";
 
 const auditFormSchema = z.object({
   url: z.string().url("Please enter a valid URL (e.g. https://example.com)"),
+  maxPages: z.coerce.number().int().min(1, "At least 1 page"),
+  maxDepth: z.coerce.number().int().min(0, "Depth cannot be negative"),
+  includePatterns: z.string(),
+  excludePatterns: z.string(),
+  userAgent: z.string().min(1, "User agent is required").max(300),
+  viewportWidth: z.coerce.number().int().min(320).max(3840),
+  viewportHeight: z.coerce.number().int().min(240).max(2160),
+  renderJs: z.boolean(),
+  useSitemap: z.boolean(),
+  checkLinks: z.boolean(),
+  mobile: z.boolean(),
+  aiFixes: z.boolean(),
+  waitStrategy: z.enum(waitStrategies),
+  ruleProfileId: z.string(),
 });
 
 type AuditFormValues = z.infer<typeof auditFormSchema>;
 
+const waitStrategyLabels: Record<(typeof waitStrategies)[number], string> = {
+  domcontentloaded: "DOM ready (fastest)",
+  load: "Full page load",
+  networkidle: "Network idle (slowest)",
+};
+
+function splitPatterns(value: string): string[] {
+  return value.split("\n").map((p) => p.trim()).filter(Boolean);
+}
+
 export default function NewAuditPage() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
@@ -31,14 +59,53 @@ export default function NewAuditPage() {
     queryKey: ["/api/profile"],
   });
 
+  const { data: ruleProfiles } = useQuery<RuleProfile[]>({
+    queryKey: ["/api/rule-profiles"],
+  });
+
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const limits = getPlanLimits(profile?.plan);
+
   const form = useForm<AuditFormValues>({
     resolver: zodResolver(auditFormSchema),
-    defaultValues: { url: "" },
+    defaultValues: {
+      url: "",
+      maxPages: 20,
+      maxDepth: 3,
+      includePatterns: "",
+      excludePatterns: "",
+      userAgent: "DevSEO-AI/1.0 (SEO Crawler)",
+      viewportWidth: 1280,
+      viewportHeight: 720,
+      renderJs: true,
+      useSitemap: true,
+      checkLinks: true,
+      mobile: false,
+      aiFixes: true,
+      waitStrategy: "domcontentloaded",
+      ruleProfileId: "default",
+    },
   });
 
   const createAudit = useMutation({
     mutationFn: async (values: AuditFormValues) => {
-      const res = await apiRequest("POST", "/api/audits", values);
+      const config: AuditConfigInput = {
+        maxPages: Math.min(values.maxPages, limits.maxPages),
+        maxDepth: Math.min(values.maxDepth, limits.maxDepth),
+        includePatterns: splitPatterns(values.includePatterns),
+        excludePatterns: splitPatterns(values.excludePatterns),
+        userAgent: values.userAgent,
+        viewport: { width: values.viewportWidth, height: values.viewportHeight },
+        renderJs: values.renderJs,
+        useSitemap: values.useSitemap,
+        checkLinks: values.checkLinks,
+        mobile: values.mobile,
+        waitStrategy: values.waitStrategy,
+        aiFixes: values.aiFixes && limits.aiFixes,
+      };
+      // Leaving ruleProfileId out lets the server use the project's default profile.
+      const ruleProfileId = values.ruleProfileId === "default" ? undefined : parseInt(values.ruleProfileId);
+      const res = await apiRequest("POST", "/api/audits", { url: values.url, config, ruleProfileId });
       return res.json();
     },
     onSuccess: (data) => {
@@ -110,6 +177,258 @@ export default function NewAuditPage() {
                 )}
               />
 
+              {ruleProfiles && ruleProfiles.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="ruleProfileId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rule profile</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-rule-profile">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Project default</SelectItem>
+                          {ruleProfiles.map((p) => (
+                            <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Which checks run, their thresholds and severities. <Link href="/rule-profiles" className="underline">Manage profiles</Link>
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced}>
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" className="gap-2 px-2" data-testid="button-toggle-advanced">
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Advanced options
+                    <ChevronDown className={`w-4 h-4 transition-transform ${showAdvanced ? "rotate-180" : ""}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="space-y-4 pt-4">
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="maxPages"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max pages</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={limits.maxPages} data-testid="input-max-pages" {...field} />
+                          </FormControl>
+                          <FormDescription>Your plan allows up to {limits.maxPages}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="maxDepth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max link depth</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} max={limits.maxDepth} data-testid="input-max-depth" {...field} />
+                          </FormControl>
+                          <FormDescription>Your plan allows up to {limits.maxDepth}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="includePatterns"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Include URL patterns</FormLabel>
+                          <FormControl>
+                            <Textarea placeholder={"/blog/*\n/docs/*"} rows={3} data-testid="input-include-patterns" {...field} />
+                          </FormControl>
+                          <FormDescription>One per line, * matches anything</FormDescription>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="excludePatterns"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Exclude URL patterns</FormLabel>
+                          <FormControl>
+                            <Textarea placeholder={"/admin/*\n*/print"} rows={3} data-testid="input-exclude-patterns" {...field} />
+                          </FormControl>
+                          <FormDescription>Matching URLs are never crawled</FormDescription>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="userAgent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>User agent</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-user-agent" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="viewportWidth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Viewport width</FormLabel>
+                          <FormControl>
+                            <Input type="number" data-testid="input-viewport-width" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="viewportHeight"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Viewport height</FormLabel>
+                          <FormControl>
+                            <Input type="number" data-testid="input-viewport-height" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="waitStrategy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Wait for</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-wait-strategy">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {waitStrategies.map((w) => (
+                                <SelectItem key={w} value={w}>{waitStrategyLabels[w]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="renderJs"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div>
+                          <FormLabel>Render JavaScript</FormLabel>
+                          <FormDescription>Turn off to audit the raw server-rendered HTML</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-render-js" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="useSitemap"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div>
+                          <FormLabel>Seed from sitemap</FormLabel>
+                          <FormDescription>Crawl URLs listed in robots.txt sitemaps and /sitemap.xml</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-use-sitemap" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="checkLinks"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div>
+                          <FormLabel>Check for broken links</FormLabel>
+                          <FormDescription>Request every internal and outbound link target once</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-links" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="mobile"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div>
+                          <FormLabel>Mobile rendering pass</FormLabel>
+                          <FormDescription>Render each page again on an emulated phone to check viewport, overflow, font sizes and tap targets</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-mobile" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="aiFixes"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div>
+                          <FormLabel>Generate AI fixes</FormLabel>
+                          <FormDescription>
+                            {limits.aiFixes
+                              ? "Write ready-to-paste meta tags and schema markup for pages with issues"
+                              : "AI fixes are included from the Starter plan"}
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value && limits.aiFixes}
+                            onCheckedChange={field.onChange}
+                            disabled={!limits.aiFixes}
+                            data-testid="switch-ai-fixes"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+
               <div className="bg-muted/50 rounded-md p-4 space-y-2">
                 <p className="text-sm font-medium">What we'll analyze:</p>
                 <ul className="text-xs text-muted-foreground space-y-1">
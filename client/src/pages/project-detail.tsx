@@ -0,0 +1,694 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, CalendarClock, GitCompare, Globe, Loader2, Pause, Play, Plus, Settings2, Trash2, TrendingUp } from "lucide-react";
+import {
+  getPlanLimits,
+  scheduleFrequencies,
+  type AuditSchedule,
+  type Project,
+  type RuleProfile,
+  type SeoAudit,
+  type UserProfile,
+} from "@shared/schema";
+
+const trendConfig = {
+  overall: { label: "Overall", color: "hsl(var(--chart-1))" },
+  meta: { label: "Meta", color: "hsl(var(--chart-2))" },
+  content: { label: "Content", color: "hsl(var(--chart-3))" },
+  performance: { label: "Performance", color: "hsl(var(--chart-4))" },
+  technical: { label: "Technical", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const projectFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rootUrl: z.string().url("Please enter a valid URL"),
+  ruleProfileId: z.string(),
+  maxPages: z.coerce.number().int().min(1, "At least 1 page"),
+  maxDepth: z.coerce.number().int().min(0, "Depth cannot be negative"),
+  checkLinks: z.boolean(),
+  mobile: z.boolean(),
+});
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const scheduleFormSchema = z
+  .object({
+    frequency: z.enum(scheduleFrequencies),
+    hour: z.string(),
+    dayOfWeek: z.string(),
+    cronExpression: z.string().trim(),
+  })
+  .refine((v) => v.frequency !== "cron" || v.cronExpression.split(/\s+/).length === 5, {
+    message: "Use five fields: minute hour day-of-month month day-of-week",
+    path: ["cronExpression"],
+  });
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+export default function ProjectDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const { data: project, isLoading } = useQuery<Project>({
+    queryKey: ["/api/projects", id],
+  });
+
+  const { data: audits } = useQuery<SeoAudit[]>({
+    queryKey: ["/api/projects", id, "audits"],
+  });
+
+  const { data: profile } = useQuery<UserProfile>({
+    queryKey: ["/api/profile"],
+  });
+
+  const completed = (audits ?? []).filter((a) => a.status === "completed");
+  const trend = completed.map((a) => ({
+    date: new Date(a.createdAt).toLocaleDateString(),
+    overall: a.overallScore,
+    meta: a.metaScore,
+    content: a.contentScore,
+    performance: a.performanceScore,
+    technical: a.technicalScore,
+  }));
+  const history = [...(audits ?? [])].reverse();
+
+  const runAudit = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/audits", { url: project!.rootUrl, projectId: project!.id });
+      return res.json();
+    },
+    onSuccess: (audit) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      navigate(`/audits/${audit.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-72 w-full" />
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="py-16 text-center">
+            <p className="text-sm text-muted-foreground">Project not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Link href="/projects">
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold truncate" data-testid="text-project-name">{project.name}</h1>
+            <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1 truncate">
+              <Globe className="w-3 h-3 shrink-0" /> {project.rootUrl}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ProjectSettingsDialog project={project} plan={profile?.plan} />
+          <Button
+            className="gap-2"
+            disabled={runAudit.isPending || (profile?.credits ?? 0) < 1}
+            onClick={() => runAudit.mutate()}
+            data-testid="button-run-project-audit"
+          >
+            {runAudit.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Run audit
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <h2 className="font-semibold mb-4 flex items-center gap-2">
+            <TrendingUp className="w-4 h-4 text-primary" />
+            Score Trend
+          </h2>
+          {trend.length < 2 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Run at least two audits to see how the scores change over time
+            </p>
+          ) : (
+            <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto" data-testid="chart-score-trend">
+              <LineChart data={trend} margin={{ left: -20, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} tickMargin={8} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {(Object.keys(trendConfig) as (keyof typeof trendConfig)[]).map((key) => (
+                  <Line
+                    key={key}
+                    dataKey={key}
+                    type="monotone"
+                    stroke={`var(--color-${key})`}
+                    strokeWidth={key === "overall" ? 2.5 : 1.5}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <SchedulesCard projectId={project.id} plan={profile?.plan} />
+
+      <div>
+        <h2 className="text-lg font-semibold mb-4">Audit History</h2>
+        {history.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-sm text-muted-foreground">No audits for this project yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {history.map((audit) => {
+              const previous = completed.filter((a) => a.createdAt < audit.createdAt).pop();
+              return (
+                <Card key={audit.id}>
+                  <CardContent className="p-4 flex items-center justify-between gap-4">
+                    <Link href={`/audits/${audit.id}`} className="min-w-0">
+                      <p className="font-medium text-sm truncate hover:underline" data-testid={`link-project-audit-${audit.id}`}>
+                        #{audit.id} · {new Date(audit.createdAt).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate flex items-center gap-1.5">
+                        {audit.scheduleId && <CalendarClock className="w-3 h-3 shrink-0" aria-label="Scheduled" />}
+                        {audit.url}
+                      </p>
+                    </Link>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {audit.status === "completed" && previous && (
+                        <Link href={`/audits/${audit.id}/compare/${previous.id}`}>
+                          <Button variant="ghost" size="sm" className="gap-1 text-xs" data-testid={`button-compare-${audit.id}`}>
+                            <GitCompare className="w-3 h-3" /> vs #{previous.id}
+                          </Button>
+                        </Link>
+                      )}
+                      {audit.overallScore !== null ? (
+                        <span className={`text-lg font-bold ${getScoreColor(audit.overallScore)}`}>{audit.overallScore}</span>
+                      ) : (
+                        <Badge variant={audit.status === "failed" ? "destructive" : "secondary"} className="capitalize">{audit.status}</Badge>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function describeSchedule(schedule: AuditSchedule): string {
+  const time = `${String(schedule.hour).padStart(2, "0")}:00 UTC`;
+  switch (schedule.frequency) {
+    case "daily":
+      return `Daily at ${time}`;
+    case "weekly":
+      return `Every ${weekdays[schedule.dayOfWeek ?? 1]} at ${time}`;
+    case "cron":
+      return `Cron: ${schedule.cronExpression} (UTC)`;
+  }
+}
+
+function SchedulesCard({ projectId, plan }: { projectId: number; plan: string | undefined }) {
+  const { toast } = useToast();
+  const canSchedule = getPlanLimits(plan).scheduling;
+  const queryClient = useQueryClient();
+  const schedulesKey = ["/api/projects", String(projectId), "schedules"];
+
+  const { data: schedules, isLoading } = useQuery<AuditSchedule[]>({
+    queryKey: schedulesKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const toggleSchedule = useMutation({
+    mutationFn: async (schedule: AuditSchedule) => {
+      const res = await apiRequest("PUT", `/api/schedules/${schedule.id}`, {
+        frequency: schedule.frequency,
+        hour: schedule.hour,
+        dayOfWeek: schedule.dayOfWeek,
+        cronExpression: schedule.cronExpression,
+        status: schedule.status === "active" ? "paused" : "active",
+      });
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: schedulesKey }),
+    onError,
+  });
+
+  const deleteSchedule = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/schedules/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: schedulesKey }),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="font-semibold flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-primary" />
+            Schedules
+          </h2>
+          {canSchedule && <AddScheduleDialog projectId={projectId} />}
+        </div>
+        {!canSchedule && (
+          <p className="text-sm text-muted-foreground" data-testid="text-schedules-upgrade">
+            Scheduled audits are included from the Pro plan. Existing schedules won't run until you upgrade.
+          </p>
+        )}
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : (schedules?.length ?? 0) === 0 ? (
+          canSchedule &&
+          <p className="text-sm text-muted-foreground">
+            No schedules. Add one to re-run this project's audit automatically; each run uses one credit.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {schedules?.map((schedule) => (
+              <div key={schedule.id} className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3" data-testid={`schedule-${schedule.id}`}>
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium">{describeSchedule(schedule)}</p>
+                    {schedule.status === "paused" && <Badge variant="secondary">Paused</Badge>}
+                  </div>
+                  {schedule.status === "paused" && schedule.pausedReason && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">{schedule.pausedReason}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.status === "active" && <>Next run {new Date(schedule.nextRunAt).toLocaleString()} · </>}
+                    {schedule.lastRunAt ? `Last run ${new Date(schedule.lastRunAt).toLocaleString()}` : "Not run yet"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1"
+                    disabled={toggleSchedule.isPending || (schedule.status === "paused" && !canSchedule)}
+                    onClick={() => toggleSchedule.mutate(schedule)}
+                    data-testid={`button-toggle-schedule-${schedule.id}`}
+                  >
+                    {schedule.status === "active" ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                    {schedule.status === "active" ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={deleteSchedule.isPending}
+                    onClick={() => deleteSchedule.mutate(schedule.id)}
+                    data-testid={`button-delete-schedule-${schedule.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AddScheduleDialog({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: { frequency: "weekly", hour: "3", dayOfWeek: "1", cronExpression: "" },
+  });
+  const frequency = form.watch("frequency");
+
+  const createSchedule = useMutation({
+    mutationFn: async (values: ScheduleFormValues) => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/schedules`, {
+        frequency: values.frequency,
+        hour: parseInt(values.hour),
+        dayOfWeek: values.frequency === "weekly" ? parseInt(values.dayOfWeek) : null,
+        cronExpression: values.frequency === "cron" ? values.cronExpression : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", String(projectId), "schedules"] });
+      setOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1" data-testid="button-add-schedule">
+          <Plus className="w-3 h-3" /> Add schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New schedule</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((v) => createSchedule.mutate(v))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="frequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-schedule-frequency">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="cron">Cron expression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            {frequency === "cron" ? (
+              <FormField
+                control={form.control}
+                name="cronExpression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron expression</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0 6 * * 1-5" className="font-mono" data-testid="input-schedule-cron" {...field} />
+                    </FormControl>
+                    <FormDescription>Minute, hour, day of month, month and day of week, in UTC</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                {frequency === "weekly" && (
+                  <FormField
+                    control={form.control}
+                    name="dayOfWeek"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Day</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-schedule-day">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {weekdays.map((day, i) => (
+                              <SelectItem key={day} value={String(i)}>{day}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="hour"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time (UTC)</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-schedule-hour">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Array.from({ length: 24 }, (_, h) => (
+                            <SelectItem key={h} value={String(h)}>{String(h).padStart(2, "0")}:00</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="submit" className="gap-2" disabled={createSchedule.isPending} data-testid="button-create-schedule">
+                {createSchedule.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Add schedule
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProjectSettingsDialog({ project, plan }: { project: Project; plan?: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const limits = getPlanLimits(plan);
+
+  const { data: ruleProfiles } = useQuery<RuleProfile[]>({
+    queryKey: ["/api/rule-profiles"],
+  });
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      name: project.name,
+      rootUrl: project.rootUrl,
+      ruleProfileId: project.ruleProfileId ? String(project.ruleProfileId) : "default",
+      maxPages: project.config.maxPages ?? 20,
+      maxDepth: project.config.maxDepth ?? 3,
+      checkLinks: project.config.checkLinks ?? true,
+      mobile: project.config.mobile ?? false,
+    });
+  }, [open, project]);
+
+  const saveProject = useMutation({
+    mutationFn: async (values: ProjectFormValues) => {
+      const res = await apiRequest("PUT", `/api/projects/${project.id}`, {
+        name: values.name,
+        rootUrl: values.rootUrl,
+        ruleProfileId: values.ruleProfileId === "default" ? null : parseInt(values.ruleProfileId),
+        config: {
+          ...project.config,
+          maxPages: Math.min(values.maxPages, limits.maxPages),
+          maxDepth: Math.min(values.maxDepth, limits.maxDepth),
+          checkLinks: values.checkLinks,
+          mobile: values.mobile,
+        },
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setOpen(false);
+      toast({ title: "Project saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" data-testid="button-project-settings">
+          <Settings2 className="w-4 h-4" /> Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Project settings</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((v) => saveProject.mutate(v))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input data-testid="input-project-settings-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rootUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Root URL</FormLabel>
+                  <FormControl>
+                    <Input data-testid="input-project-settings-url" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="ruleProfileId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule profile</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-project-rule-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="default">Default rules</SelectItem>
+                      {(ruleProfiles ?? []).map((p) => (
+                        <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="maxPages"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max pages</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={limits.maxPages} {...field} />
+                    </FormControl>
+                    <FormDescription>Your plan allows up to {limits.maxPages}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxDepth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max link depth</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={limits.maxDepth} {...field} />
+                    </FormControl>
+                    <FormDescription>Your plan allows up to {limits.maxDepth}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="checkLinks"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <FormLabel>Check for broken links</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="mobile"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <FormLabel>Mobile rendering pass</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" className="gap-2" disabled={saveProject.isPending} data-testid="button-save-project">
+                {saveProject.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return "text-emerald-600 dark:text-emerald-400";
+  if (score >= 60) return "text-amber-600 dark:text-amber-400";
+  return "text-red-600 dark:text-red-400";
+}
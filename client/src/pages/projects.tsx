@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { FolderKanban, Globe, Loader2, Plus } from "lucide-react";
+import type { Project } from "@shared/schema";
+
+interface ProjectSummary extends Project {
+  auditCount: number;
+  latestAudit: { id: number; overallScore: number | null; createdAt: string } | null;
+}
+
+const projectFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rootUrl: z.string().url("Please enter a valid URL (e.g. https://example.com)"),
+});
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+export default function ProjectsPage() {
+  const { data: projects, isLoading } = useQuery<ProjectSummary[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-projects-title">Projects</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Each project tracks the audit history of one site
+          </p>
+        </div>
+        <NewProjectDialog />
+      </div>
+
+      {isLoading ? (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-32 w-full rounded-md" />
+          ))}
+        </div>
+      ) : (projects?.length ?? 0) === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center">
+            <FolderKanban className="w-10 h-10 text-muted-foreground mx-auto mb-4" />
+            <h3 className="font-semibold mb-2">No projects yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Create a project, or run an audit and one is created for its domain
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {projects?.map((project) => (
+            <ProjectCard key={project.id} project={project} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ProjectCard({ project }: { project: ProjectSummary }) {
+  const score = project.latestAudit?.overallScore ?? null;
+  return (
+    <Link href={`/projects/${project.id}`}>
+      <Card className="hover-elevate cursor-pointer h-full" data-testid={`card-project-${project.id}`}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{project.name}</p>
+              <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                <Globe className="w-3 h-3 shrink-0" /> {project.rootUrl}
+              </p>
+            </div>
+            {score !== null && (
+              <span className={`text-xl font-bold ${getScoreColor(score)}`}>{score}</span>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="text-xs">{project.auditCount} audits</Badge>
+            {project.latestAudit && (
+              <span className="text-xs text-muted-foreground">
+                Last audit {new Date(project.latestAudit.createdAt).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
+
+function NewProjectDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: { name: "", rootUrl: "" },
+  });
+
+  const createProject = useMutation({
+    mutationFn: async (values: ProjectFormValues) => {
+      const res = await apiRequest("POST", "/api/projects", values);
+      return res.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setOpen(false);
+      form.reset();
+      navigate(`/projects/${project.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2" data-testid="button-new-project">
+          <Plus className="w-4 h-4" /> New Project
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New project</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((v) => createProject.mutate(v))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Marketing site" data-testid="input-project-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rootUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Root URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com" data-testid="input-project-url" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" className="gap-2" disabled={createProject.isPending} data-testid="button-create-project">
+                {createProject.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Create project
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return "text-emerald-600 dark:text-emerald-400";
+  if (score >= 60) return "text-amber-600 dark:text-amber-400";
+  return "text-red-600 dark:text-red-400";
+}
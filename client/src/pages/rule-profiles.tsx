@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ListChecks, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import type { RuleProfile, RuleSetting, RuleSettings } from "@shared/schema";
+
+interface RuleInfo {
+  id: string;
+  title: string;
+  category: "meta" | "content" | "performance" | "technical";
+  severity: "critical" | "warning" | "info";
+  penalty: number;
+  docs: string;
+  thresholds?: Record<string, { label: string; default: number }>;
+}
+
+const categoryLabels: Record<RuleInfo["category"], string> = {
+  meta: "Meta",
+  content: "Content",
+  performance: "Performance",
+  technical: "Technical",
+};
+
+const defaultSetting: RuleSetting = { enabled: true, severity: null, thresholds: {}, exceptions: [] };
+
+function RuleRow({
+  rule,
+  setting,
+  onChange,
+}: {
+  rule: RuleInfo;
+  setting: RuleSetting;
+  onChange: (setting: RuleSetting) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const customized = setting.severity !== null || Object.keys(setting.thresholds).length > 0 || setting.exceptions.length > 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <div className="flex items-center gap-3 p-3">
+        <Switch
+          checked={setting.enabled}
+          onCheckedChange={(enabled) => onChange({ ...setting, enabled })}
+          data-testid={`switch-rule-${rule.id}`}
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm font-medium ${setting.enabled ? "" : "text-muted-foreground line-through"}`}>{rule.title}</p>
+          <p className="text-xs text-muted-foreground truncate">{rule.docs}</p>
+        </div>
+        {customized && <Badge variant="secondary" className="text-xs">Customized</Badge>}
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" data-testid={`button-expand-rule-${rule.id}`}>
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className="border-t p-3 space-y-3">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Severity</Label>
+            <Select
+              value={setting.severity ?? "default"}
+              onValueChange={(v) => onChange({ ...setting, severity: v === "default" ? null : (v as RuleSetting["severity"]) })}
+            >
+              <SelectTrigger data-testid={`select-severity-${rule.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default ({rule.severity})</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+                <SelectItem value="warning">Warning</SelectItem>
+                <SelectItem value="info">Info</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {Object.entries(rule.thresholds ?? {}).map(([key, def]) => (
+            <div key={key} className="space-y-1.5">
+              <Label className="text-xs">{def.label}</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder={String(def.default)}
+                value={setting.thresholds[key] ?? ""}
+                onChange={(e) => {
+                  const thresholds = { ...setting.thresholds };
+                  const value = parseFloat(e.target.value);
+                  if (Number.isFinite(value)) thresholds[key] = value;
+                  else delete thresholds[key];
+                  onChange({ ...setting, thresholds });
+                }}
+                data-testid={`input-threshold-${rule.id}-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Ignore on URLs</Label>
+          <Textarea
+            rows={2}
+            placeholder={"/legal/*\nhttps://example.com/old-page"}
+            value={setting.exceptions.join("\n")}
+            onChange={(e) => onChange({ ...setting, exceptions: e.target.value.split("\n") })}
+            data-testid={`input-exceptions-${rule.id}`}
+          />
+          <p className="text-xs text-muted-foreground">One pattern per line, * matches anything</p>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function cleanSettings(settings: RuleSettings): RuleSettings {
+  const cleaned: RuleSettings = {};
+  for (const [id, setting] of Object.entries(settings)) {
+    const exceptions = setting.exceptions.map((p) => p.trim()).filter(Boolean);
+    const isDefault = setting.enabled && setting.severity === null && Object.keys(setting.thresholds).length === 0 && exceptions.length === 0;
+    if (!isDefault) cleaned[id] = { ...setting, exceptions };
+  }
+  return cleaned;
+}
+
+export default function RuleProfilesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [settings, setSettings] = useState<RuleSettings>({});
+
+  const { data: profiles, isLoading } = useQuery<RuleProfile[]>({
+    queryKey: ["/api/rule-profiles"],
+  });
+
+  const { data: rules } = useQuery<RuleInfo[]>({
+    queryKey: ["/api/rules"],
+  });
+
+  const selected = typeof selectedId === "number" ? profiles?.find((p) => p.id === selectedId) : undefined;
+
+  useEffect(() => {
+    if (selectedId === null && profiles && profiles.length > 0) setSelectedId(profiles[0].id);
+  }, [profiles, selectedId]);
+
+  useEffect(() => {
+    if (selected) {
+      setName(selected.name);
+      setSettings(selected.rules);
+    } else if (selectedId === "new") {
+      setName("");
+      setSettings({});
+    }
+    // Only reset the form when a different profile or version is loaded, not on every refetch.
+  }, [selected?.id, selected?.version, selectedId]);
+
+  const rulesByCategory = useMemo(() => {
+    const groups = new Map<RuleInfo["category"], RuleInfo[]>();
+    for (const rule of rules ?? []) {
+      groups.set(rule.category, [...(groups.get(rule.category) ?? []), rule]);
+    }
+    return Array.from(groups.entries());
+  }, [rules]);
+
+  const saveProfile = useMutation({
+    mutationFn: async () => {
+      const body = { name, rules: cleanSettings(settings) };
+      const res = selectedId === "new" || selectedId === null
+        ? await apiRequest("POST", "/api/rule-profiles", body)
+        : await apiRequest("PUT", `/api/rule-profiles/${selectedId}`, body);
+      return res.json() as Promise<RuleProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData<RuleProfile[]>(["/api/rule-profiles"], (prev) => [
+        ...(prev ?? []).filter((p) => p.id !== profile.id),
+        profile,
+      ]);
+      queryClient.invalidateQueries({ queryKey: ["/api/rule-profiles"] });
+      setSelectedId(profile.id);
+      toast({ title: "Profile saved", description: `${profile.name} is now at version ${profile.version}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/rule-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rule-profiles"] });
+      setSelectedId(null);
+      toast({ title: "Profile deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editing = selectedId === "new" || !!selected;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-rule-profiles-title">Rule Profiles</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Choose which checks run, tune their thresholds and ignore known exceptions
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => setSelectedId("new")} data-testid="button-new-profile">
+          <Plus className="w-4 h-4" /> New profile
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-[14rem_1fr] gap-6">
+        <div className="space-y-2">
+          {isLoading ? (
+            [...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+          ) : profiles && profiles.length > 0 ? (
+            profiles.map((p) => (
+              <Button
+                key={p.id}
+                variant={p.id === selectedId ? "secondary" : "ghost"}
+                className="w-full justify-between"
+                onClick={() => setSelectedId(p.id)}
+                data-testid={`button-profile-${p.id}`}
+              >
+                <span className="truncate">{p.name}</span>
+                <span className="text-xs text-muted-foreground">v{p.version}</span>
+              </Button>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground px-2">No profiles yet. Audits use the default rules.</p>
+          )}
+        </div>
+
+        {editing ? (
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex-1 min-w-[12rem] space-y-1.5">
+                  <Label htmlFor="profile-name">Name</Label>
+                  <Input
+                    id="profile-name"
+                    value={name}
+                    maxLength={100}
+                    placeholder="e.g. Marketing site"
+                    onChange={(e) => setName(e.target.value)}
+                    data-testid="input-profile-name"
+                  />
+                </div>
+                <Button
+                  className="gap-2"
+                  disabled={!name.trim() || saveProfile.isPending}
+                  onClick={() => saveProfile.mutate()}
+                  data-testid="button-save-profile"
+                >
+                  {saveProfile.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save
+                </Button>
+                {selected && (
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    disabled={deleteProfile.isPending}
+                    onClick={() => deleteProfile.mutate(selected.id)}
+                    data-testid="button-delete-profile"
+                  >
+                    <Trash2 className="w-4 h-4" /> Delete
+                  </Button>
+                )}
+              </div>
+
+              {rulesByCategory.map(([category, categoryRules]) => (
+                <div key={category} className="space-y-2">
+                  <h2 className="font-semibold text-sm">{categoryLabels[category]}</h2>
+                  {categoryRules.map((rule) => (
+                    <RuleRow
+                      key={rule.id}
+                      rule={rule}
+                      setting={settings[rule.id] ?? defaultSetting}
+                      onChange={(setting) => setSettings((prev) => ({ ...prev, [rule.id]: setting }))}
+                    />
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <ListChecks className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">Create a profile to customize the checks for a site.</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -46,19 +46,22 @@ async function buildAll() {
   ];
   const externals = allDeps.filter((dep) => !allowlist.includes(dep));
 
-  await esbuild({
-    entryPoints: ["server/index.ts"],
+  const serverOptions = {
     platform: "node",
     bundle: true,
     format: "cjs",
-    outfile: "dist/index.cjs",
     define: {
       "process.env.NODE_ENV": '"production"',
     },
     minify: true,
     external: externals,
     logLevel: "info",
-  });
+  } as const;
+
+  await esbuild({ ...serverOptions, entryPoints: ["server/index.ts"], outfile: "dist/index.cjs" });
+
+  console.log("building worker...");
+  await esbuild({ ...serverOptions, entryPoints: ["server/worker.ts"], outfile: "dist/worker.cjs" });
 }
 
 buildAll().catch((err) => {
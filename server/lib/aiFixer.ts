@@ -1,50 +1,119 @@
-import OpenAI from "openai";
+import { createHash } from "crypto";
+import { estimateLlmCost, getLlmProvider, registerLlmTemplate, type LlmMessage, type LlmUsage } from "./llm";
+import { buildRepairPrompt, validateAiFix, type AiFixValidationResult } from "./fixValidation";
+import { batchProcess } from "../replit_integrations/batch";
+import { storage } from "../storage";
 import type { CrawledPage } from "./crawler";
 import type { SeoIssue } from "./analyzer";
+import type { AiFix } from "@shared/schema";
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+export type { AiFix } from "@shared/schema";
 
-const MAX_TOKENS = 4096;
-const MAX_RETRIES = 2;
-const RETRY_DELAY_MS = 2000;
+const FIX_TASK = "seo-fix";
+/** Bump whenever the prompt wording changes, so cached fixes from the old prompt stop matching. */
+const PROMPT_VERSION = 2;
+/** Re-prompts allowed after the first answer fails validation. */
+const MAX_REPAIR_ATTEMPTS = 2;
+const FIX_CONCURRENCY = 4;
+const DEFAULT_TOKEN_BUDGET = 200_000;
 
-export interface AiFix {
-  pageUrl: string;
-  optimizedTitle: string;
-  optimizedMetaDescription: string;
-  improvedH1: string;
-  jsonLdSchema: Record<string, any>;
-  suggestedInternalLinkingText: string;
+/** Most tokens one audit may spend on fixes; pages past it get template fixes. Set with AI_FIX_TOKEN_BUDGET. */
+function tokenBudget(): number {
+  const configured = Number(process.env.AI_FIX_TOKEN_BUDGET);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
 }
 
 export interface AiFixerResult {
   fixes: AiFix[];
   totalFixesGenerated: number;
+  /** Fixes reused from the cache. */
+  cachedFixes: number;
+  /** Fixes the model produced on this run, fallbacks included. */
+  generatedFixes: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Null when no model prices are configured. */
+  costUsd: number | null;
+  /** Pages that got a fallback fix because the token budget ran out. */
+  overBudget: number;
+  /** Model fixes still failing validation after every repair attempt. */
+  failedValidation: number;
+}
+
+export interface GenerateFixesOptions {
+  signal?: AbortSignal;
+  onFix?: (progress: AiFixProgress) => void | Promise<void>;
+}
+
+export interface AiFixProgress {
+  pageUrl: string;
+  /** How many fixes are done, this one included; fixes finish out of page order. */
+  index: number;
+  total: number;
+  fallback: boolean;
+  cached: boolean;
+}
+
+/** Everything the prompt says about a page; its hash is the cache key. */
+interface FixPromptInputs {
+  url: string;
+  title: string;
+  metaDescription: string;
+  h1: string[];
+  wordCount: number;
+  internalLinks: number;
+  externalLinks: number;
+  images: number;
+  imagesMissingAlt: number;
+  hasSchema: boolean;
+  canonical: string;
+  h2: string[];
+  issues: string[];
+}
+
+function promptInputs(page: CrawledPage, issues: SeoIssue[]): FixPromptInputs {
+  return {
+    url: page.url,
+    title: page.title || "",
+    metaDescription: page.metaDescription || "",
+    h1: page.headings.h1,
+    wordCount: page.wordCount,
+    internalLinks: page.internalLinks,
+    externalLinks: page.externalLinks,
+    images: page.images.length,
+    imagesMissingAlt: page.images.filter((i) => !i.alt).length,
+    hasSchema: page.schemaScripts.length > 0,
+    canonical: page.canonical || "",
+    h2: page.headings.h2.slice(0, 5),
+    issues: issues
+      .filter((i) => !i.pageUrl || i.pageUrl === page.url)
+      .map((i) => `[${i.severity}] ${i.issueType}: ${i.explanation}`),
+  };
+}
+
+function hashInputs(inputs: FixPromptInputs): string {
+  // Issue order doesn't change the prompt's meaning, so it shouldn't change the key either.
+  const normalized = { ...inputs, issues: [...inputs.issues].sort() };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
 }
 
-function buildPrompt(page: CrawledPage, issues: SeoIssue[]): string {
-  const pageIssues = issues
-    .filter((i) => !i.pageUrl || i.pageUrl === page.url)
-    .map((i) => `- [${i.severity}] ${i.issueType}: ${i.explanation}`)
-    .join("\n");
+function buildPrompt(inputs: FixPromptInputs): string {
+  const pageIssues = inputs.issues.map((i) => `- ${i}`).join("\n");
 
   return `You are an expert SEO consultant. Analyze this page and generate optimized SEO fixes.
 
 PAGE DATA:
-- URL: ${page.url}
-- Current Title: ${page.title || "(missing)"}
-- Current Meta Description: ${page.metaDescription || "(missing)"}
-- Current H1: ${page.headings.h1.join(", ") || "(missing)"}
-- Word Count: ${page.wordCount}
-- Internal Links: ${page.internalLinks}
-- External Links: ${page.externalLinks}
-- Images: ${page.images.length} (${page.images.filter((i) => !i.alt).length} missing alt)
-- Schema Markup: ${page.schemaScripts.length > 0 ? "present" : "none"}
-- Canonical: ${page.canonical || "(not set)"}
-- H2 Tags: ${page.headings.h2.slice(0, 5).join(", ") || "(none)"}
+- URL: ${inputs.url}
+- Current Title: ${inputs.title || "(missing)"}
+- Current Meta Description: ${inputs.metaDescription || "(missing)"}
+- Current H1: ${inputs.h1.join(", ") || "(missing)"}
+- Word Count: ${inputs.wordCount}
+- Internal Links: ${inputs.internalLinks}
+- External Links: ${inputs.externalLinks}
+- Images: ${inputs.images} (${inputs.imagesMissingAlt} missing alt)
+- Schema Markup: ${inputs.hasSchema ? "present" : "none"}
+- Canonical: ${inputs.canonical || "(not set)"}
+- H2 Tags: ${inputs.h2.join(", ") || "(none)"}
 
 DETECTED ISSUES:
 ${pageIssues || "No specific issues detected."}
@@ -86,60 +155,149 @@ function fallbackFix(page: CrawledPage): AiFix {
   };
 }
 
-async function callOpenAIWithRetry(prompt: string, retries: number = MAX_RETRIES): Promise<string> {
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-5-mini",
-        messages: [{ role: "user", content: prompt }],
-        max_completion_tokens: MAX_TOKENS,
-        response_format: { type: "json_object" },
-      });
-      return response.choices[0]?.message?.content || "{}";
-    } catch (err: any) {
-      const status = err?.status || err?.statusCode;
-      if (status === 429 && attempt < retries) {
-        const delay = RETRY_DELAY_MS * Math.pow(2, attempt);
-        console.warn(`[AI Fixer] Rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`);
-        await new Promise((r) => setTimeout(r, delay));
-        continue;
-      }
-      if (attempt < retries) {
-        console.warn(`[AI Fixer] API error (attempt ${attempt + 1}/${retries}): ${err.message}`);
-        await new Promise((r) => setTimeout(r, RETRY_DELAY_MS));
-        continue;
-      }
-      throw err;
-    }
-  }
-  return "{}";
+/** Fallback fixes are validated too, so the stored status says whether they meet the constraints. */
+function validatedFallback(page: CrawledPage): AiFix {
+  const { pageUrl, ...output } = fallbackFix(page);
+  const result = validateAiFix(output, page.url);
+  return { pageUrl, ...output, validation: { status: result.valid ? "passed" : "failed", errors: result.errors, attempts: 0 } };
 }
 
+// The template provider answers with the same fix generateFixes falls back to when a model call fails.
+registerLlmTemplate(FIX_TASK, (context) => {
+  const { pageUrl, ...fix } = fallbackFix(context as CrawledPage);
+  return JSON.stringify(fix);
+});
+
 export async function generateFixes(
   pages: CrawledPage[],
-  issues: SeoIssue[]
+  issues: SeoIssue[],
+  { signal, onFix }: GenerateFixesOptions = {},
 ): Promise<AiFixerResult> {
-  const fixes: AiFix[] = [];
-
-  for (const page of pages) {
-    try {
-      const prompt = buildPrompt(page, issues);
-      const raw = await callOpenAIWithRetry(prompt);
-      const parsed = JSON.parse(raw);
-
-      fixes.push({
-        pageUrl: page.url,
-        optimizedTitle: parsed.optimizedTitle || fallbackFix(page).optimizedTitle,
-        optimizedMetaDescription: parsed.optimizedMetaDescription || fallbackFix(page).optimizedMetaDescription,
-        improvedH1: parsed.improvedH1 || fallbackFix(page).improvedH1,
-        jsonLdSchema: parsed.jsonLdSchema || fallbackFix(page).jsonLdSchema,
-        suggestedInternalLinkingText: parsed.suggestedInternalLinkingText || fallbackFix(page).suggestedInternalLinkingText,
-      });
-    } catch (err: any) {
-      console.error(`[AI Fixer] Failed for ${page.url}, using fallback: ${err.message}`);
-      fixes.push(fallbackFix(page));
+  const provider = getLlmProvider();
+  const budget = tokenBudget();
+  const usage: LlmUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let cachedFixes = 0;
+  let overBudget = 0;
+  let failedValidation = 0;
+  let completed = 0;
+
+  const inputs = pages.map((page) => promptInputs(page, issues));
+  const hashes = inputs.map(hashInputs);
+  const cache = new Map<string, AiFix>();
+  try {
+    const entries = await storage.getAiFixCacheEntries(Array.from(new Set(hashes)), provider.model, PROMPT_VERSION);
+    for (const entry of entries) cache.set(entry.inputHash, entry.fix);
+  } catch (err: any) {
+    console.error(`[AI Fixer] Could not read the fix cache: ${err.message}`);
+  }
+
+  const generate = async (page: CrawledPage, i: number): Promise<{ fix: AiFix; fallback: boolean; cached: boolean }> => {
+    const cachedFix = cache.get(hashes[i]);
+    if (cachedFix) {
+      cachedFixes++;
+      return { fix: { ...cachedFix, pageUrl: page.url }, fallback: false, cached: true };
+    }
+
+    // Checked before each call, so calls already in flight can overshoot the budget by a little.
+    if (usage.totalTokens >= budget) {
+      overBudget++;
+      return { fix: validatedFallback(page), fallback: true, cached: false };
+    }
+
+    const messages: LlmMessage[] = [{ role: "user", content: buildPrompt(inputs[i]) }];
+    let attempts = 0;
+    let raw: Record<string, any> | null = null;
+    let result: AiFixValidationResult | null = null;
+
+    // Invalid answers are sent back with their errors until they pass or the repair attempts run out.
+    // A deterministic provider would only repeat itself, so its first answer stands.
+    while (attempts <= MAX_REPAIR_ATTEMPTS && usage.totalTokens < budget) {
+      let content: string;
+      try {
+        const response = await provider.complete({ task: FIX_TASK, messages, json: true, context: page });
+        content = response.content;
+        if (response.usage) {
+          usage.promptTokens += response.usage.promptTokens;
+          usage.completionTokens += response.usage.completionTokens;
+          usage.totalTokens += response.usage.totalTokens;
+        }
+      } catch (err: any) {
+        console.error(`[AI Fixer] Failed for ${page.url}${raw ? ", keeping the last answer" : ", using fallback"}: ${err.message}`);
+        break;
+      }
+      attempts++;
+
+      let attemptRaw: unknown;
+      try {
+        attemptRaw = JSON.parse(content);
+      } catch {
+        attemptRaw = null;
+      }
+      const attemptResult = attemptRaw && typeof attemptRaw === "object"
+        ? validateAiFix(attemptRaw, page.url)
+        : { valid: false as const, output: null, errors: ["response: not a JSON object"] };
+      if (attemptRaw && typeof attemptRaw === "object") raw = attemptRaw as Record<string, any>;
+      result = attemptResult;
+      if (attemptResult.valid || provider.deterministic) break;
+
+      messages.push({ role: "assistant", content }, { role: "user", content: buildRepairPrompt(attemptResult.errors) });
     }
+
+    if (!raw || !result) {
+      return { fix: validatedFallback(page), fallback: true, cached: false };
+    }
+
+    // A structurally broken answer keeps whichever fields it has and takes the rest from the fallback.
+    const fallback = fallbackFix(page);
+    const fix: AiFix = {
+      pageUrl: page.url,
+      optimizedTitle: result.output?.optimizedTitle || raw.optimizedTitle || fallback.optimizedTitle,
+      optimizedMetaDescription: result.output?.optimizedMetaDescription || raw.optimizedMetaDescription || fallback.optimizedMetaDescription,
+      improvedH1: result.output?.improvedH1 || raw.improvedH1 || fallback.improvedH1,
+      jsonLdSchema: result.output?.jsonLdSchema || raw.jsonLdSchema || fallback.jsonLdSchema,
+      suggestedInternalLinkingText: result.output?.suggestedInternalLinkingText || raw.suggestedInternalLinkingText || fallback.suggestedInternalLinkingText,
+      validation: { status: result.valid ? "passed" : "failed", errors: result.errors, attempts },
+    };
+
+    if (result.valid) {
+      await storage
+        .saveAiFixCacheEntry({ inputHash: hashes[i], model: provider.model, promptVersion: PROMPT_VERSION, fix })
+        .catch((err) => console.error(`[AI Fixer] Could not cache the fix for ${page.url}: ${err.message}`));
+    } else {
+      failedValidation++;
+      console.warn(`[AI Fixer] Fix for ${page.url} failed validation after ${attempts} attempts: ${result.errors.join("; ")}`);
+    }
+    return { fix, fallback: false, cached: false };
+  };
+
+  // generate never throws, so batchProcess only adds bounded concurrency; the provider already retries.
+  // Errors from onFix (a cancelled audit, for one) do propagate and stop the batch.
+  const results = await batchProcess(
+    pages,
+    async (page, i) => {
+      signal?.throwIfAborted();
+      const result = await generate(page, i);
+      completed++;
+      await onFix?.({ pageUrl: page.url, index: completed, total: pages.length, fallback: result.fallback, cached: result.cached });
+      return result;
+    },
+    { concurrency: FIX_CONCURRENCY },
+  );
+
+  if (overBudget > 0) {
+    console.warn(`[AI Fixer] Token budget of ${budget} reached; used fallback fixes for ${overBudget} pages`);
   }
 
-  return { fixes, totalFixesGenerated: fixes.length };
+  const fixes = results.map((r) => r.fix);
+  return {
+    fixes,
+    totalFixesGenerated: fixes.length,
+    cachedFixes,
+    generatedFixes: fixes.length - cachedFixes,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    costUsd: estimateLlmCost(usage),
+    overBudget,
+    failedValidation,
+  };
 }
@@ -0,0 +1,105 @@
+import { storage } from "../storage";
+import { extractDomain } from "./urls";
+import { findOrCreateProjectForUrl } from "./projects";
+import type { AuditJob } from "./queue";
+import { getPlanLimits, resolveAuditConfig, type AppliedRuleProfile, type AuditConfigInput, type SeoAudit } from "@shared/schema";
+
+export interface AuditRequest {
+  url: string;
+  config?: Partial<AuditConfigInput>;
+  /** null selects the default rules; undefined falls back to the project's profile. */
+  ruleProfileId?: number | null;
+  projectId?: number;
+  scheduleId?: number;
+}
+
+export type AuditRequestErrorCode =
+  | "insufficient_credits"
+  | "plan_not_entitled"
+  | "project_not_found"
+  | "rule_profile_not_found";
+
+export class AuditRequestError extends Error {
+  constructor(public readonly code: AuditRequestErrorCode, message: string) {
+    super(message);
+    this.name = "AuditRequestError";
+  }
+}
+
+/**
+ * Creates an audit and charges one credit for it. Both manual and scheduled audits go
+ * through here; the caller hands the returned job to `enqueueAudit`.
+ */
+export async function createChargedAudit(userId: string, request: AuditRequest): Promise<{ audit: SeoAudit; job: AuditJob }> {
+  const profile = await storage.ensureProfile(userId);
+  if (profile.credits < 1) {
+    throw new AuditRequestError("insufficient_credits", "Not enough credits. Please upgrade your plan.");
+  }
+  if (request.scheduleId && !getPlanLimits(profile.plan).scheduling) {
+    throw new AuditRequestError("plan_not_entitled", "Scheduled audits are not included in your plan.");
+  }
+
+  const { url } = request;
+  const domain = extractDomain(url);
+
+  let project;
+  if (request.projectId) {
+    project = await storage.getProject(request.projectId);
+    if (!project || project.userId !== userId) {
+      throw new AuditRequestError("project_not_found", "Project not found");
+    }
+  } else {
+    project = await findOrCreateProjectForUrl(userId, url);
+  }
+
+  // Project defaults apply unless the request overrides them; the plan caps pages, depth and AI fixes.
+  const config = resolveAuditConfig({ ...project.config, ...request.config }, profile.plan);
+  const ruleProfileId = request.ruleProfileId !== undefined ? request.ruleProfileId : project.ruleProfileId;
+
+  let ruleProfile: AppliedRuleProfile | null = null;
+  if (ruleProfileId) {
+    const selected = await storage.getRuleProfile(ruleProfileId);
+    if (!selected || selected.userId !== userId) {
+      throw new AuditRequestError("rule_profile_not_found", "Rule profile not found");
+    }
+    ruleProfile = { id: selected.id, name: selected.name, version: selected.version, rules: selected.rules };
+  }
+
+  const audit = await storage.createAudit({
+    userId,
+    projectId: project.id,
+    scheduleId: request.scheduleId ?? null,
+    url,
+    domain,
+    config,
+    ruleProfile,
+  });
+
+  await storage.updateProfileCredits(userId, profile.credits - 1);
+  await storage.createCreditTransaction({
+    userId,
+    amount: -1,
+    type: "debit",
+    description: `${request.scheduleId ? "Scheduled SEO audit" : "SEO audit"}: ${url}`,
+    auditId: audit.id,
+  });
+
+  return {
+    audit,
+    job: { auditId: audit.id, userId, url, domain, config, ruleProfile, scheduleId: audit.scheduleId },
+  };
+}
+
+/** Gives back the credit charged for an audit that didn't produce results. */
+export async function refundAuditCredit(userId: string, auditId: number, description: string): Promise<void> {
+  const profile = await storage.getProfile(userId);
+  if (!profile) return;
+  await storage.updateProfileCredits(userId, profile.credits + 1);
+  await storage.createCreditTransaction({
+    userId,
+    amount: 1,
+    type: "refund",
+    description,
+    auditId,
+  });
+}
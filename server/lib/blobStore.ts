@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { storage } from "../storage";
+import { getWorkerMode } from "./queue";
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  /** Keys that start with `prefix`. */
+  list(prefix: string): Promise<string[]>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const full = path.resolve(this.rootDir, key);
+    if (!full.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return full;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    try {
+      const file = this.resolve(key);
+      const data = await fs.readFile(file);
+      return { data, contentType: CONTENT_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream" };
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Only the directory part of the prefix needs reading; the rest is matched against the file names.
+    const dir = path.resolve(this.rootDir, path.posix.dirname(prefix + "x"));
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir, { recursive: true });
+    } catch (err: any) {
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+    const files = await Promise.all(
+      entries.map(async (entry) => ((await fs.stat(path.join(dir, entry))).isFile() ? entry : null)),
+    );
+    return files
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => path.relative(path.resolve(this.rootDir), path.join(dir, entry)).split(path.sep).join("/"))
+      .filter((key) => key.startsWith(prefix));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+/** Keeps blobs in Postgres, so every process that shares DATABASE_URL sees the same files. */
+export class DatabaseBlobStore implements BlobStore {
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await storage.putBlob(key, data, contentType);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    const blob = await storage.getBlob(key);
+    return blob ? { data: blob.data, contentType: blob.contentType } : null;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return storage.getBlobKeys(prefix);
+  }
+
+  async delete(key: string): Promise<void> {
+    await storage.deleteBlob(key);
+  }
+}
+
+/**
+ * BLOB_STORE picks "local" or "database". With WORKER_MODE=external the worker writes screenshots the
+ * web process serves, so the default there is the database, and a local store must name a directory
+ * both processes mount.
+ */
+function createBlobStore(): BlobStore {
+  const external = getWorkerMode() === "external";
+  const kind = process.env.BLOB_STORE || (external ? "database" : "local");
+  if (kind === "database") return new DatabaseBlobStore();
+  if (kind !== "local") {
+    throw new Error(`Unknown BLOB_STORE "${kind}"; use "local" or "database"`);
+  }
+  if (external && !process.env.BLOB_STORE_DIR) {
+    throw new Error(
+      "BLOB_STORE=local with WORKER_MODE=external needs BLOB_STORE_DIR on a volume the web and worker processes share; otherwise use BLOB_STORE=database",
+    );
+  }
+  return new LocalBlobStore(process.env.BLOB_STORE_DIR || path.resolve(process.cwd(), ".data", "blobs"));
+}
+
+let blobStore: BlobStore = createBlobStore();
+
+export function getBlobStore(): BlobStore {
+  return blobStore;
+}
+
+// Swap in another backend (e.g. object storage) at startup.
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { AuditPage, SeoAudit } from "@shared/schema";
+import { issueFingerprint } from "./analyzer";
+import { compareAudits } from "./compare";
+
+interface IssueInput {
+  issueType: string;
+  severity: string;
+  pageUrl: string | null;
+  fingerprint?: string;
+}
+
+function issue({ issueType, severity, pageUrl, fingerprint }: IssueInput) {
+  return {
+    issueType,
+    severity,
+    title: issueType,
+    description: `${issueType} on ${pageUrl}`,
+    pageUrl,
+    fingerprint: fingerprint ?? issueFingerprint(issueType, pageUrl ?? undefined),
+  };
+}
+
+function audit(id: number, scores: Partial<SeoAudit>, issues: IssueInput[], suppressedIssues: IssueInput[] = []): SeoAudit {
+  return {
+    id,
+    url: "https://example.com/",
+    createdAt: new Date(`2026-01-0${id}T00:00:00Z`),
+    completedAt: new Date(`2026-01-0${id}T00:05:00Z`),
+    overallScore: 70,
+    metaScore: 70,
+    contentScore: 70,
+    performanceScore: 70,
+    technicalScore: 70,
+    ...scores,
+    results: { issues: issues.map(issue), suppressedIssues: suppressedIssues.map(issue) },
+  } as SeoAudit;
+}
+
+const pages = (...urls: string[]) => urls.map((url) => ({ url }) as AuditPage);
+
+describe("compareAudits", () => {
+  it("sorts issues into new, resolved, regressed and unchanged by fingerprint", () => {
+    const base = audit(1, {}, [
+      { issueType: "missing_title", severity: "critical", pageUrl: "https://example.com/a" },
+      { issueType: "thin_content", severity: "info", pageUrl: "https://example.com/b" },
+      { issueType: "slow_lcp", severity: "warning", pageUrl: "https://example.com/c" },
+    ]);
+    const target = audit(2, {}, [
+      // Same page once normalized, so the same issue.
+      { issueType: "missing_title", severity: "critical", pageUrl: "https://EXAMPLE.com/a/" },
+      { issueType: "thin_content", severity: "warning", pageUrl: "https://example.com/b" },
+      { issueType: "missing_h1", severity: "warning", pageUrl: "https://example.com/d" },
+    ]);
+
+    const { issues } = compareAudits(base, target, [], []);
+    expect(issues.new.map((i) => i.issueType)).toEqual(["missing_h1"]);
+    expect(issues.resolved.map((i) => i.issueType)).toEqual(["slow_lcp"]);
+    expect(issues.regressed).toEqual([expect.objectContaining({ issueType: "thin_content", previousSeverity: "info" })]);
+    expect(issues.unchanged).toBe(1);
+    expect(issues.suppressed).toEqual([]);
+  });
+
+  it("reports issues suppressed since the base audit separately from resolved ones", () => {
+    const broken = { issueType: "broken_internal_links", severity: "warning", pageUrl: "https://example.com/a" };
+    const base = audit(1, {}, [broken]);
+    const target = audit(2, {}, [], [broken]);
+
+    const { issues } = compareAudits(base, target, [], []);
+    expect(issues.suppressed.map((i) => i.issueType)).toEqual(["broken_internal_links"]);
+    expect(issues.resolved).toEqual([]);
+  });
+
+  it("derives fingerprints for issues stored without one", () => {
+    const base = audit(1, {}, []);
+    (base.results as any).issues = [{ issueType: "missing_title", severity: "critical", title: "", description: "", pageUrl: "https://example.com/a" }];
+    const target = audit(2, {}, [{ issueType: "missing_title", severity: "critical", pageUrl: "https://example.com/a" }]);
+
+    const { issues } = compareAudits(base, target, [], []);
+    expect(issues.new).toEqual([]);
+    expect(issues.unchanged).toBe(1);
+  });
+
+  it("diffs crawled pages and score changes", () => {
+    const base = audit(1, { overallScore: 60, performanceScore: null }, []);
+    const target = audit(2, { overallScore: 75, performanceScore: 80 }, []);
+
+    const result = compareAudits(
+      base,
+      target,
+      pages("https://example.com/", "https://example.com/old"),
+      pages("https://example.com", "https://example.com/new"),
+    );
+    expect(result.pages).toEqual({ added: ["https://example.com/new"], removed: ["https://example.com/old"], unchanged: 1 });
+    expect(result.scoreDeltas.overall).toBe(15);
+    expect(result.scoreDeltas.meta).toBe(0);
+    expect(result.scoreDeltas.performance).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import type { AuditPage, SeoAudit } from "@shared/schema";
+import { issueFingerprint, normalizeIssueUrl } from "./analyzer";
+
+interface StoredIssue {
+  issueType: string;
+  severity: string;
+  title: string;
+  description: string;
+  pageUrl: string | null;
+  fingerprint?: string;
+}
+
+export interface ComparedIssue extends StoredIssue {
+  fingerprint: string;
+  previousSeverity?: string;
+}
+
+export interface AuditComparison {
+  base: AuditSnapshot;
+  target: AuditSnapshot;
+  scoreDeltas: Record<ScoreKey, number | null>;
+  issues: {
+    new: ComparedIssue[];
+    resolved: ComparedIssue[];
+    /** Present in the base audit and suppressed, rather than fixed, by the time of the target. */
+    suppressed: ComparedIssue[];
+    regressed: ComparedIssue[];
+    unchanged: number;
+  };
+  pages: {
+    added: string[];
+    removed: string[];
+    unchanged: number;
+  };
+}
+
+type ScoreKey = "overall" | "meta" | "content" | "performance" | "technical";
+
+interface AuditSnapshot {
+  id: number;
+  url: string;
+  createdAt: Date;
+  completedAt: Date | null;
+  scores: Record<ScoreKey, number | null>;
+}
+
+const severityRank: Record<string, number> = { info: 0, warning: 1, critical: 2 };
+
+function snapshot(audit: SeoAudit): AuditSnapshot {
+  return {
+    id: audit.id,
+    url: audit.url,
+    createdAt: audit.createdAt,
+    completedAt: audit.completedAt,
+    scores: {
+      overall: audit.overallScore,
+      meta: audit.metaScore,
+      content: audit.contentScore,
+      performance: audit.performanceScore,
+      technical: audit.technicalScore,
+    },
+  };
+}
+
+// Audits saved before fingerprints existed get one derived from the rule id and page URL.
+function issuesByFingerprint(issues: StoredIssue[]): Map<string, ComparedIssue> {
+  const map = new Map<string, ComparedIssue>();
+  for (const issue of issues) {
+    const fingerprint = issue.fingerprint ?? issueFingerprint(issue.issueType, issue.pageUrl ?? undefined);
+    if (!map.has(fingerprint)) map.set(fingerprint, { ...issue, fingerprint });
+  }
+  return map;
+}
+
+/** Compares `target` against the earlier `base` audit: what changed since the baseline. */
+export function compareAudits(base: SeoAudit, target: SeoAudit, basePages: AuditPage[], targetPages: AuditPage[]): AuditComparison {
+  const baseIssues = issuesByFingerprint((base.results as any)?.issues ?? []);
+  const targetIssues = issuesByFingerprint((target.results as any)?.issues ?? []);
+  const targetSuppressed = issuesByFingerprint((target.results as any)?.suppressedIssues ?? []);
+
+  const newIssues: ComparedIssue[] = [];
+  const regressed: ComparedIssue[] = [];
+  let unchangedIssues = 0;
+  for (const [fingerprint, issue] of Array.from(targetIssues.entries())) {
+    const before = baseIssues.get(fingerprint);
+    if (!before) {
+      newIssues.push(issue);
+    } else if ((severityRank[issue.severity] ?? 0) > (severityRank[before.severity] ?? 0)) {
+      regressed.push({ ...issue, previousSeverity: before.severity });
+    } else {
+      unchangedIssues++;
+    }
+  }
+  const resolved: ComparedIssue[] = [];
+  const suppressed: ComparedIssue[] = [];
+  for (const [fingerprint, issue] of Array.from(baseIssues.entries())) {
+    if (targetIssues.has(fingerprint)) continue;
+    if (targetSuppressed.has(fingerprint)) suppressed.push(issue);
+    else resolved.push(issue);
+  }
+
+  const baseUrls = new Set(basePages.map((p) => normalizeIssueUrl(p.url)));
+  const targetUrls = new Set(targetPages.map((p) => normalizeIssueUrl(p.url)));
+  const added = Array.from(targetUrls).filter((url) => !baseUrls.has(url)).sort();
+  const removed = Array.from(baseUrls).filter((url) => !targetUrls.has(url)).sort();
+
+  const baseSnapshot = snapshot(base);
+  const targetSnapshot = snapshot(target);
+  const scoreDeltas = {} as Record<ScoreKey, number | null>;
+  for (const key of Object.keys(targetSnapshot.scores) as ScoreKey[]) {
+    const before = baseSnapshot.scores[key];
+    const after = targetSnapshot.scores[key];
+    scoreDeltas[key] = before === null || after === null ? null : after - before;
+  }
+
+  return {
+    base: baseSnapshot,
+    target: targetSnapshot,
+    scoreDeltas,
+    issues: { new: newIssues, resolved, suppressed, regressed, unchanged: unchangedIssues },
+    pages: { added, removed, unchanged: targetUrls.size - added.length },
+  };
+}
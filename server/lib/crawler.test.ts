@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { runPageScript } from "./testing/runPageScript";
+
+// The crawler reaches the database through the screenshot blob store; nothing here queries it.
+vi.mock("../db", () => ({ db: {}, pool: {} }));
+
+const { extractPageDataScript, parseRobotsDirectives } = await import("./crawler");
+
+const html = `<!doctype html>
+<html>
+<head>
+  <title> Pricing | Example </title>
+  <meta name="description" content="Plans for every team">
+  <meta name="robots" content="noindex">
+  <link rel="canonical" href="https://example.com/pricing">
+  <script type="application/ld+json">{"@type": "WebPage", "name": "Pricing"}</script>
+</head>
+<body>
+  <h1 id="main-title">Pricing</h1>
+  <nav>
+    <a href="/features">Features</a>
+    <a href="/blog#latest" rel="nofollow">Blog</a>
+    <a href="https://other.com/docs"><img src="/docs.png" alt="Docs"></a>
+    <a href="mailto:sales@example.com">Email</a>
+  </nav>
+  <img src="/hero.jpg">
+  <p>Three plans to choose from.</p>
+</body>
+</html>`;
+
+describe("extractPageDataScript", () => {
+  it("runs as a serialized page script", () => {
+    const data = runPageScript(extractPageDataScript, { pageUrl: "https://example.com/pricing", baseDomain: "https://example.com" }, html);
+
+    expect(data.title).toBe("Pricing | Example");
+    expect(data.metaDescription).toBe("Plans for every team");
+    expect(data.headings.h1).toEqual(["Pricing"]);
+    expect(data.canonical).toBe("https://example.com/pricing");
+    expect(data.robotsMeta).toBe("noindex");
+    expect(data.schemaScripts).toEqual([{ "@type": "WebPage", name: "Pricing" }]);
+    expect(data.internalLinks).toBe(2);
+    expect(data.externalLinks).toBe(1);
+    expect(data.links).toEqual([
+      { href: "https://example.com/features", text: "Features", internal: true, nofollow: false, selector: "body > nav > a:nth-of-type(1)" },
+      { href: "https://example.com/blog", text: "Blog", internal: true, nofollow: true, selector: "body > nav > a:nth-of-type(2)" },
+      { href: "https://other.com/docs", text: "Docs", internal: false, nofollow: false, selector: "body > nav > a:nth-of-type(3)" },
+    ]);
+  });
+
+  it("locates the elements behind each issue", () => {
+    const data = runPageScript(extractPageDataScript, { pageUrl: "https://example.com/pricing", baseDomain: "https://example.com" }, html);
+
+    expect(data.elements.h1).toEqual([{ selector: "#main-title", snippet: '<h1 id="main-title">Pricing</h1>' }]);
+    expect(data.elements.metaDescription?.attribute).toEqual({ name: "content", value: "Plans for every team" });
+    expect(data.elements.imagesWithoutAlt).toEqual([
+      { selector: "body > img", snippet: '<img src="/hero.jpg">', attribute: { name: "src", value: "/hero.jpg" } },
+    ]);
+  });
+});
+
+describe("parseRobotsDirectives", () => {
+  it("applies X-Robots-Tag directives scoped to the configured crawler", () => {
+    const userAgent = "AcmeBot/2.0 (+https://acme.test/bot)";
+
+    expect(parseRobotsDirectives(null, "acmebot: noindex", userAgent).noindex).toBe(true);
+    expect(parseRobotsDirectives(null, "devseo-ai: noindex", userAgent).noindex).toBe(false);
+    expect(parseRobotsDirectives(null, "otherbot: nofollow, googlebot: nofollow", userAgent).nofollow).toBe(true);
+  });
+});
@@ -1,11 +1,20 @@
-import { chromium, type Browser, type BrowserContext } from "playwright-core";
+import { chromium, type Browser, type BrowserContext, type Page, type Response } from "playwright-core";
 import robotsParser from "robots-parser";
 import { execSync } from "child_process";
+import { randomUUID } from "crypto";
+import { auditConfigSchema, type AuditConfig, type IssueOccurrence } from "@shared/schema";
+import { discoverSitemapUrls } from "./sitemap";
+import { checkLinks, type LinkCheckResult } from "./linkChecker";
+import { buildLinkGraph, type LinkGraph } from "./linkGraph";
+import { collectPerformance, recordNetwork, vitalsInitScript, type PerformanceMetrics } from "./performance";
+import { collectMobileUsability, MOBILE_DEVICE, type MobileUsability } from "./mobile";
+import { matchesUrlPattern, normalizeUrl } from "./urls";
+import { capturePageScreenshot, screenshotKey, type PageScreenshot, type PageScreenshots } from "./screenshot";
 
-const MAX_PAGES = 20;
 const PAGE_TIMEOUT = 15000;
 const NAV_TIMEOUT = 20000;
 const MAX_RETRIES = 2;
+const MAX_CRAWL_DELAY_MS = 20000;
 
 function findChromiumPath(): string {
   if (process.env.CHROMIUM_PATH) return process.env.CHROMIUM_PATH;
@@ -26,18 +35,88 @@ function findChromiumPath(): string {
 
 const CHROMIUM_PATH = findChromiumPath();
 
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null;
+}
+
+export interface PageHeaders {
+  xRobotsTag: string | null;
+  cacheControl: string | null;
+  contentEncoding: string | null;
+  location: string | null;
+}
+
+export interface RobotsDirectives {
+  meta: string | null;
+  xRobotsTag: string | null;
+  noindex: boolean;
+  nofollow: boolean;
+}
+
+export interface PageLink {
+  href: string;
+  text: string;
+  internal: boolean;
+  nofollow: boolean;
+  selector: string;
+}
+
+export interface PageElements {
+  title: IssueOccurrence | null;
+  metaDescription: IssueOccurrence | null;
+  canonical: IssueOccurrence | null;
+  robotsMeta: IssueOccurrence[];
+  h1: IssueOccurrence[];
+  imagesWithoutAlt: IssueOccurrence[];
+}
+
 export interface CrawledPage {
   url: string;
+  finalUrl: string;
+  httpStatus: number | null;
+  redirectChain: RedirectHop[];
+  contentType: string | null;
+  headers: PageHeaders;
   title: string;
   metaDescription: string;
   headings: { h1: string[]; h2: string[]; h3: string[]; h4: string[]; h5: string[]; h6: string[] };
   wordCount: number;
   internalLinks: number;
   externalLinks: number;
+  links: PageLink[];
   images: Array<{ src: string; alt: string }>;
+  elements: PageElements;
   canonical: string | null;
+  robots: RobotsDirectives;
+  performance: PerformanceMetrics | null;
+  mobile: MobileUsability | null;
+  screenshots: PageScreenshots;
   schemaScripts: any[];
-  issues: Array<{ severity: "critical" | "warning" | "info"; title: string; description: string }>;
+}
+
+type PageResponseInfo = Pick<CrawledPage, "finalUrl" | "httpStatus" | "redirectChain" | "contentType" | "headers">;
+type ExtractedPageData = Omit<CrawledPage, keyof PageResponseInfo | "robots" | "performance" | "mobile" | "screenshots"> & { robotsMeta: string | null };
+
+export interface RedirectLoop {
+  url: string;
+  chain: RedirectHop[];
+}
+
+export interface BlockedUrl {
+  url: string;
+  linkedFrom: string[];
+}
+
+export interface SitemapCoverage {
+  sitemaps: string[];
+  totalUrls: number;
+  /** Crawled sitemap URLs that no crawled page links to. */
+  unlinkedUrls: string[];
+  /** Sitemap URLs the crawl never reached, e.g. because maxPages ran out; their links are unknown. */
+  notCrawledUrls: string[];
+  missingFromSitemap: string[];
 }
 
 export interface CrawlResult {
@@ -45,21 +124,50 @@ export interface CrawlResult {
   pagesCrawled: number;
   pages: CrawledPage[];
   errors: string[];
+  redirectLoops: RedirectLoop[];
+  robotsBlocked: BlockedUrl[];
+  crawlDelayMs: number;
+  sitemap: SitemapCoverage | null;
+  linkCheck: LinkCheckResult | null;
+  linkGraph: LinkGraph;
 }
 
-function normalizeUrl(raw: string, base: string): string | null {
-  try {
-    const u = new URL(raw, base);
-    u.hash = "";
-    u.search = "";
-    const path = u.pathname.replace(/\/+$/, "") || "/";
-    return `${u.protocol}//${u.hostname}${path}`;
-  } catch {
-    return null;
-  }
+export interface CrawlPageEvent {
+  url: string;
+  depth: number;
+  httpStatus: number | null;
+  /** Pages crawled so far, including this one when it succeeded. */
+  crawled: number;
+  error?: string;
+}
+
+export interface CrawlOptions {
+  /** Aborting closes the browser and makes crawlDomain throw the signal's reason instead of returning partial results. */
+  signal?: AbortSignal;
+  /** Awaited after every page attempt, in crawl order. */
+  onPage?: (event: CrawlPageEvent) => void | Promise<void>;
+  /** Blob key prefix for this crawl's screenshots; a fresh one under "screenshots/" by default. */
+  screenshotPrefix?: string;
+}
+
+function isUrlInScope(url: string, config: AuditConfig): boolean {
+  if (config.excludePatterns.some((p) => matchesUrlPattern(url, p))) return false;
+  if (config.includePatterns.length === 0) return true;
+  return config.includePatterns.some((p) => matchesUrlPattern(url, p));
+}
+
+interface RobotsTxt {
+  isAllowed: (url: string) => boolean;
+  sitemaps: string[];
+  crawlDelaySeconds: number | null;
+}
+
+/** The product token robots.txt groups are matched against, e.g. "DevSEO-AI" for "DevSEO-AI/1.0 (SEO Crawler)". */
+function robotsAgent(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0] || "*";
 }
 
-async function fetchRobotsTxt(domain: string): Promise<((url: string) => boolean) | null> {
+async function fetchRobotsTxt(domain: string, userAgent: string): Promise<RobotsTxt | null> {
   const robotsUrl = `${domain}/robots.txt`;
   try {
     const controller = new AbortController();
@@ -69,198 +177,438 @@ async function fetchRobotsTxt(domain: string): Promise<((url: string) => boolean
     if (!res.ok) return null;
     const text = await res.text();
     const parser = robotsParser(robotsUrl, text);
-    return function checkRobots(url: string) { return parser.isAllowed(url, "DevSEO-AI") ?? true; };
+    const agent = robotsAgent(userAgent);
+    return {
+      isAllowed: function checkRobots(url: string) { return parser.isAllowed(url, agent) ?? true; },
+      sitemaps: parser.getSitemaps(),
+      crawlDelaySeconds: parser.getCrawlDelay(agent) ?? null,
+    };
   } catch {
     return null;
   }
 }
 
-async function extractPageData(page: any, pageUrl: string, baseDomain: string): Promise<CrawledPage> {
-  return page.evaluate(function(args: any) {
-    var pUrl = args.pageUrl;
-    var bDomain = args.baseDomain;
-
-    var titleEl = document.querySelector("title");
-    var title = titleEl ? (titleEl.textContent || "").trim() : "";
-    var metaDescEl = document.querySelector('meta[name="description"]');
-    var metaDescription = metaDescEl ? metaDescEl.getAttribute("content") || "" : "";
-
-    var headingLevels = ["h1", "h2", "h3", "h4", "h5", "h6"];
-    var headings: Record<string, string[]> = {};
-    for (var i = 0; i < headingLevels.length; i++) {
-      var level = headingLevels[i];
-      var els = Array.from(document.querySelectorAll(level));
-      headings[level] = els.map(function(el) { return (el.textContent || "").trim(); });
-    }
+export function parseRobotsDirectives(meta: string | null, xRobotsTag: string | null, userAgent: string): RobotsDirectives {
+  const agent = robotsAgent(userAgent).toLowerCase();
+  const directives = [meta, xRobotsTag]
+    .filter((v): v is string => !!v)
+    .flatMap((v) => v.toLowerCase().split(/[,\n]/))
+    .map((d) => d.trim())
+    .map((d) => {
+      // X-Robots-Tag may scope a directive to a crawler, e.g. "googlebot: noindex".
+      const scoped = /^([a-z0-9_-]+)\s*:\s*(.+)$/.exec(d);
+      if (scoped && !["unavailable_after", "max-snippet", "max-image-preview", "max-video-preview"].includes(scoped[1])) {
+        return ["googlebot", agent, "*"].includes(scoped[1]) ? scoped[2] : "";
+      }
+      return d;
+    });
+  return {
+    meta,
+    xRobotsTag,
+    noindex: directives.some((d) => d === "noindex" || d === "none"),
+    nofollow: directives.some((d) => d === "nofollow" || d === "none"),
+  };
+}
 
-    var bodyText = document.body ? (document.body as any).innerText || "" : "";
-    var words = bodyText.split(/\s+/).filter(function(w: string) { return w.length > 0; });
-    var wordCount = words.length;
+/**
+ * Runs inside the page through page.evaluate, so it may only use what it declares itself and the
+ * page's own globals.
+ */
+export function extractPageDataScript(args: { pageUrl: string; baseDomain: string }): ExtractedPageData {
+  var pUrl = args.pageUrl;
+  var bDomain = args.baseDomain;
+
+  // Object methods, not named functions: tsx (esbuild keepNames) follows every named function with a
+  // `__name()` call, and that helper doesn't exist in the page.
+  var dom = {
+    selectorFor(el: Element): string {
+      var parts: string[] = [];
+      var node: Element | null = el;
+      while (node && node.nodeType === 1 && node !== document.documentElement) {
+        if (node.id && document.querySelectorAll("#" + CSS.escape(node.id)).length === 1) {
+          parts.unshift("#" + CSS.escape(node.id));
+          break;
+        }
+        var tag = node.tagName.toLowerCase();
+        var parentEl: Element | null = node.parentElement;
+        if (parentEl) {
+          var same = Array.from(parentEl.children).filter(function(c) { return c.tagName === node!.tagName; });
+          if (same.length > 1) tag += ":nth-of-type(" + (same.indexOf(node) + 1) + ")";
+        }
+        parts.unshift(tag);
+        node = parentEl;
+      }
+      return parts.join(" > ");
+    },
+
+    snippetFor(el: Element): string {
+      var html = el.outerHTML.replace(/\s+/g, " ").trim();
+      return html.length > 200 ? html.slice(0, 197) + "..." : html;
+    },
+
+    occurrence(el: Element, attrName?: string): IssueOccurrence {
+      var occ: IssueOccurrence = { selector: dom.selectorFor(el), snippet: dom.snippetFor(el) };
+      if (attrName && el.hasAttribute(attrName)) occ.attribute = { name: attrName, value: el.getAttribute(attrName) || "" };
+      return occ;
+    },
+  };
 
-    var internalLinks = 0;
-    var externalLinks = 0;
-    var parsedBase: any;
-    try { parsedBase = new URL(bDomain); } catch(e) { parsedBase = { hostname: "" }; }
-    var anchors = Array.from(document.querySelectorAll("a[href]"));
-    for (var j = 0; j < anchors.length; j++) {
-      try {
-        var href = (anchors[j] as HTMLAnchorElement).href;
-        if (!href || href.indexOf("javascript:") === 0 || href.indexOf("mailto:") === 0 || href.indexOf("tel:") === 0) continue;
-        var u = new URL(href, pUrl);
-        if (u.hostname === parsedBase.hostname) { internalLinks++; } else { externalLinks++; }
-      } catch(e) {}
-    }
+  var titleEl = document.querySelector("title");
+  var title = titleEl ? (titleEl.textContent || "").trim() : "";
+  var metaDescEl = document.querySelector('meta[name="description"]');
+  var metaDescription = metaDescEl ? metaDescEl.getAttribute("content") || "" : "";
+
+  var headingLevels = ["h1", "h2", "h3", "h4", "h5", "h6"];
+  var headings: Record<string, string[]> = {};
+  for (var i = 0; i < headingLevels.length; i++) {
+    var level = headingLevels[i];
+    var els = Array.from(document.querySelectorAll(level));
+    headings[level] = els.map(function(el) { return (el.textContent || "").trim(); });
+  }
 
-    var imgEls = Array.from(document.querySelectorAll("img"));
-    var images = imgEls.map(function(img) {
-      return { src: (img as HTMLImageElement).src || "", alt: (img as HTMLImageElement).alt || "" };
-    });
+  var bodyText = document.body ? (document.body as any).innerText || "" : "";
+  var words = bodyText.split(/\s+/).filter(function(w: string) { return w.length > 0; });
+  var wordCount = words.length;
+
+  var internalLinks = 0;
+  var externalLinks = 0;
+  var links: Array<{ href: string; text: string; internal: boolean; nofollow: boolean; selector: string }> = [];
+  var parsedBase: any;
+  try { parsedBase = new URL(bDomain); } catch(e) { parsedBase = { hostname: "" }; }
+  var anchors = Array.from(document.querySelectorAll("a[href]"));
+  for (var j = 0; j < anchors.length; j++) {
+    try {
+      var anchor = anchors[j] as HTMLAnchorElement;
+      var href = anchor.href;
+      if (!href || href.indexOf("javascript:") === 0 || href.indexOf("mailto:") === 0 || href.indexOf("tel:") === 0) continue;
+      var u = new URL(href, pUrl);
+      if (u.protocol !== "http:" && u.protocol !== "https:") continue;
+      var isInternal = u.hostname === parsedBase.hostname;
+      if (isInternal) { internalLinks++; } else { externalLinks++; }
+      u.hash = "";
+      var anchorText = (anchor.innerText || anchor.textContent || "").replace(/\s+/g, " ").trim();
+      if (!anchorText) {
+        var img = anchor.querySelector("img[alt]");
+        anchorText = img ? (img.getAttribute("alt") || "").trim() : (anchor.getAttribute("aria-label") || "").trim();
+      }
+      links.push({
+        href: u.href,
+        text: anchorText.slice(0, 200),
+        internal: isInternal,
+        nofollow: /(^|\s)nofollow(\s|$)/i.test(anchor.getAttribute("rel") || ""),
+        selector: dom.selectorFor(anchor),
+      });
+    } catch(e) {}
+  }
 
-    var canonicalEl = document.querySelector('link[rel="canonical"]');
-    var canonical = canonicalEl ? canonicalEl.getAttribute("href") : null;
+  var imgEls = Array.from(document.querySelectorAll("img"));
+  var images = imgEls.map(function(img) {
+    return { src: (img as HTMLImageElement).src || "", alt: (img as HTMLImageElement).alt || "" };
+  });
+
+  var canonicalEl = document.querySelector('link[rel="canonical"]');
+  var canonical = canonicalEl ? canonicalEl.getAttribute("href") : null;
+
+  var robotsEls = Array.from(document.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'));
+  var robotsContents = robotsEls.map(function(el) { return el.getAttribute("content") || ""; }).filter(function(c) { return c.length > 0; });
+  var robotsMeta = robotsContents.length > 0 ? robotsContents.join(", ") : null;
+
+  var imgWithoutAltEls = imgEls.filter(function(img) { return !(img as HTMLImageElement).alt; });
+  var elements = {
+    title: titleEl ? dom.occurrence(titleEl) : null,
+    metaDescription: metaDescEl ? dom.occurrence(metaDescEl, "content") : null,
+    canonical: canonicalEl ? dom.occurrence(canonicalEl, "href") : null,
+    robotsMeta: robotsEls.map(function(el) { return dom.occurrence(el, "content"); }),
+    h1: Array.from(document.querySelectorAll("h1")).slice(0, 20).map(function(el) { return dom.occurrence(el); }),
+    imagesWithoutAlt: imgWithoutAltEls.slice(0, 20).map(function(el) { return dom.occurrence(el, "src"); }),
+  };
 
-    var schemaScripts: any[] = [];
-    var scriptEls = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
-    for (var k = 0; k < scriptEls.length; k++) {
-      try { schemaScripts.push(JSON.parse(scriptEls[k].textContent || "")); } catch(e) {}
-    }
+  var schemaScripts: any[] = [];
+  var scriptEls = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
+  for (var k = 0; k < scriptEls.length; k++) {
+    try { schemaScripts.push(JSON.parse(scriptEls[k].textContent || "")); } catch(e) {}
+  }
 
-    var issues: Array<{ severity: string; title: string; description: string }> = [];
-    if (!title) {
-      issues.push({ severity: "critical", title: "Missing title tag", description: "Page has no <title> element." });
-    } else if (title.length > 60) {
-      issues.push({ severity: "warning", title: "Title too long", description: "Title is " + title.length + " chars (recommended: <60)." });
-    }
-    if (!metaDescription) {
-      issues.push({ severity: "critical", title: "Missing meta description", description: "No meta description found." });
-    } else if (metaDescription.length > 160) {
-      issues.push({ severity: "warning", title: "Meta description too long", description: "Meta description is " + metaDescription.length + " chars (recommended: <160)." });
-    }
-    if (headings.h1.length === 0) {
-      issues.push({ severity: "critical", title: "Missing H1", description: "Page has no H1 heading." });
-    } else if (headings.h1.length > 1) {
-      issues.push({ severity: "warning", title: "Multiple H1 tags", description: "Found " + headings.h1.length + " H1 tags (recommended: 1)." });
-    }
-    var imagesWithoutAlt = images.filter(function(img) { return !img.alt; });
-    if (imagesWithoutAlt.length > 0) {
-      issues.push({ severity: "warning", title: "Images missing alt text", description: imagesWithoutAlt.length + " of " + images.length + " images have no alt attribute." });
+  return {
+    url: pUrl,
+    title: title,
+    metaDescription: metaDescription,
+    headings: headings as ExtractedPageData["headings"],
+    wordCount: wordCount,
+    internalLinks: internalLinks,
+    externalLinks: externalLinks,
+    links: links,
+    images: images,
+    elements: elements,
+    canonical: canonical,
+    robotsMeta: robotsMeta,
+    schemaScripts: schemaScripts
+  };
+}
+
+async function extractPageData(page: Page, pageUrl: string, baseDomain: string): Promise<ExtractedPageData> {
+  return page.evaluate(extractPageDataScript, { pageUrl, baseDomain });
+}
+
+async function readResponseInfo(url: string, response: Response | null, finalUrl: string): Promise<PageResponseInfo> {
+  if (!response) {
+    return {
+      finalUrl,
+      httpStatus: null,
+      redirectChain: [],
+      contentType: null,
+      headers: { xRobotsTag: null, cacheControl: null, contentEncoding: null, location: null },
+    };
+  }
+
+  const redirectChain: RedirectHop[] = [];
+  let req = response.request().redirectedFrom();
+  while (req) {
+    const hop = await req.response();
+    if (hop) {
+      const hopHeaders = await hop.allHeaders();
+      redirectChain.unshift({ url: req.url(), status: hop.status(), location: hopHeaders["location"] ?? null });
     }
-    if (!canonical) {
-      issues.push({ severity: "info", title: "No canonical URL", description: "Consider adding a canonical link element." });
+    req = req.redirectedFrom();
+  }
+
+  const headers = await response.allHeaders();
+  return {
+    finalUrl: response.url() || url,
+    httpStatus: response.status(),
+    redirectChain,
+    contentType: headers["content-type"] ?? null,
+    headers: {
+      xRobotsTag: headers["x-robots-tag"] ?? null,
+      cacheControl: headers["cache-control"] ?? null,
+      contentEncoding: headers["content-encoding"] ?? null,
+      location: headers["location"] ?? null,
+    },
+  };
+}
+
+/** Waits before a request to the crawled host; resolves at once for other hosts. */
+type CrawlThrottle = (url: string) => Promise<void>;
+
+/**
+ * Spaces requests to `hostname` at least `delayMs` apart (robots.txt Crawl-delay). Every request the
+ * crawl makes to the site goes through it: page loads and their retries, the mobile pass and redirect tracing.
+ */
+function createCrawlThrottle(hostname: string, delayMs: number, signal?: AbortSignal): CrawlThrottle {
+  let nextSlot = 0;
+  return async function waitForTurn(url: string) {
+    if (delayMs <= 0) return;
+    try {
+      if (new URL(url).hostname !== hostname) return;
+    } catch {
+      return;
     }
-    if (wordCount < 300) {
-      issues.push({ severity: "warning", title: "Thin content", description: "Page has only " + wordCount + " words (recommended: 300+)." });
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + delayMs;
+    if (slot <= now || signal?.aborted) return;
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, slot - now);
+      signal?.addEventListener("abort", done, { once: true });
+    });
+  };
+}
+
+async function traceRedirects(url: string, userAgent: string, throttle: CrawlThrottle, maxHops: number = 10): Promise<RedirectHop[]> {
+  const chain: RedirectHop[] = [];
+  let current = url;
+  for (let i = 0; i < maxHops; i++) {
+    try {
+      await throttle(current);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), 5000);
+      const res = await fetch(current, { method: "HEAD", redirect: "manual", headers: { "User-Agent": userAgent }, signal: controller.signal });
+      clearTimeout(timer);
+      const location = res.headers.get("location");
+      if (res.status < 300 || res.status >= 400 || !location) break;
+      chain.push({ url: current, status: res.status, location });
+      current = new URL(location, current).href;
+    } catch {
+      break;
     }
+  }
+  return chain;
+}
 
-    return {
-      url: pUrl,
-      title: title,
-      metaDescription: metaDescription,
-      headings: headings,
-      wordCount: wordCount,
-      internalLinks: internalLinks,
-      externalLinks: externalLinks,
-      images: images,
-      canonical: canonical,
-      schemaScripts: schemaScripts,
-      issues: issues
-    };
-  }, { pageUrl, baseDomain });
+async function captureScreenshot(page: Page, key: string, mobile: boolean): Promise<PageScreenshot | null> {
+  try {
+    return await capturePageScreenshot(page, key, mobile);
+  } catch (err: any) {
+    console.warn(`[Crawler] Screenshot failed for ${page.url()}: ${err.message}`);
+    return null;
+  }
 }
 
-async function discoverLinks(page: any, baseDomain: string): Promise<string[]> {
-  return page.evaluate(function(args: any) {
-    var bDomain = args.baseDomain;
-    var links: string[] = [];
-    var base: any;
-    try { base = new URL(bDomain); } catch(e) { return links; }
-    var anchors = Array.from(document.querySelectorAll("a[href]"));
-    var seen: Record<string, boolean> = {};
-    for (var i = 0; i < anchors.length; i++) {
-      try {
-        var href = (anchors[i] as HTMLAnchorElement).href;
-        if (!href || href.indexOf("javascript:") === 0 || href.indexOf("mailto:") === 0 || href.indexOf("tel:") === 0) continue;
-        var u = new URL(href);
-        if (u.hostname === base.hostname) {
-          u.hash = "";
-          var normalized = u.href;
-          if (!seen[normalized]) {
-            seen[normalized] = true;
-            links.push(normalized);
-          }
-        }
-      } catch(e) {}
+async function crawlMobilePass(
+  browser: Browser,
+  url: string,
+  config: AuditConfig,
+  screenshotPrefix: string,
+  throttle: CrawlThrottle
+): Promise<{ usability: MobileUsability | null; screenshot: PageScreenshot | null }> {
+  let context: BrowserContext | null = null;
+  try {
+    // Use the device's own user agent so sites that sniff for mobile serve their mobile layout.
+    context = await browser.newContext({ ...MOBILE_DEVICE, javaScriptEnabled: config.renderJs });
+    context.setDefaultTimeout(PAGE_TIMEOUT);
+    const page = await context.newPage();
+    await throttle(url);
+    await page.goto(url, { waitUntil: config.waitStrategy, timeout: NAV_TIMEOUT });
+    if (config.renderJs && config.waitStrategy !== "networkidle") {
+      await page.waitForTimeout(1500);
     }
-    return links;
-  }, { baseDomain });
+    const usability = await collectMobileUsability(page);
+    const screenshot = await captureScreenshot(page, screenshotKey(screenshotPrefix, url, "mobile"), true);
+    return { usability, screenshot };
+  } catch (err: any) {
+    console.warn(`[Crawler] Mobile pass failed for ${url}: ${err.message}`);
+    return { usability: null, screenshot: null };
+  } finally {
+    if (context) {
+      try { await context.close(); } catch {}
+    }
+  }
 }
 
 async function crawlPageWithRetry(
   browser: Browser,
   url: string,
   baseDomain: string,
+  config: AuditConfig,
+  screenshotPrefix: string,
+  throttle: CrawlThrottle,
   retries: number = MAX_RETRIES
-): Promise<{ data: CrawledPage | null; discoveredLinks: string[] }> {
+): Promise<{ data: CrawledPage | null; redirectLoop?: boolean }> {
   for (let attempt = 0; attempt <= retries; attempt++) {
     let context: BrowserContext | null = null;
     try {
       context = await browser.newContext({
-        userAgent: "DevSEO-AI/1.0 (SEO Crawler)",
-        viewport: { width: 1280, height: 720 },
-        javaScriptEnabled: true,
+        userAgent: config.userAgent,
+        viewport: config.viewport,
+        javaScriptEnabled: config.renderJs,
       });
       context.setDefaultTimeout(PAGE_TIMEOUT);
       const page = await context.newPage();
+      await page.addInitScript(vitalsInitScript);
+      const network = recordNetwork(page);
 
-      await page.goto(url, { waitUntil: "domcontentloaded", timeout: NAV_TIMEOUT });
-      await page.waitForTimeout(1500);
+      await throttle(url);
+      const response = await page.goto(url, { waitUntil: config.waitStrategy, timeout: NAV_TIMEOUT });
+      if (config.renderJs && config.waitStrategy !== "networkidle") {
+        await page.waitForTimeout(1500);
+      }
 
-      const data = await extractPageData(page, url, baseDomain);
-      const discoveredLinks = await discoverLinks(page, baseDomain);
+      const responseInfo = await readResponseInfo(url, response, page.url());
+      const { robotsMeta, ...extracted } = await extractPageData(page, url, baseDomain);
+      const data: CrawledPage = {
+        ...extracted,
+        ...responseInfo,
+        robots: parseRobotsDirectives(robotsMeta, responseInfo.headers.xRobotsTag, config.userAgent),
+        performance: await collectPerformance(page, network).catch((err) => {
+          console.warn(`[Crawler] Performance metrics unavailable for ${url}: ${err.message}`);
+          return null;
+        }),
+        mobile: null,
+        screenshots: {
+          desktop: await captureScreenshot(page, screenshotKey(screenshotPrefix, url, "desktop"), false),
+          mobile: null,
+        },
+      };
 
       await context.close();
-      return { data, discoveredLinks };
+      if (config.mobile) {
+        const mobilePass = await crawlMobilePass(browser, url, config, screenshotPrefix, throttle);
+        data.mobile = mobilePass.usability;
+        data.screenshots.mobile = mobilePass.screenshot;
+      }
+      return { data };
     } catch (err: any) {
       if (context) {
         try { await context.close(); } catch {}
       }
+      if (String(err.message).includes("ERR_TOO_MANY_REDIRECTS")) {
+        console.warn(`[Crawler] Redirect loop detected for ${url}`);
+        return { data: null, redirectLoop: true };
+      }
       if (attempt < retries) {
         console.warn(`[Crawler] Retry ${attempt + 1}/${retries} for ${url}: ${err.message}`);
         await new Promise(function(r) { setTimeout(r, 1000 * (attempt + 1)); });
         continue;
       }
       console.error(`[Crawler] Failed after ${retries + 1} attempts for ${url}: ${err.message}`);
-      return { data: null, discoveredLinks: [] };
+      return { data: null };
     }
   }
-  return { data: null, discoveredLinks: [] };
+  return { data: null };
 }
 
-export async function crawlDomain(startUrl: string): Promise<CrawlResult> {
+export async function crawlDomain(
+  startUrl: string,
+  config: AuditConfig = auditConfigSchema.parse({}),
+  { signal, onPage, screenshotPrefix = `screenshots/${randomUUID()}` }: CrawlOptions = {},
+): Promise<CrawlResult> {
   let parsedStart: URL;
   try {
     parsedStart = new URL(startUrl);
   } catch {
-    return { domain: startUrl, pagesCrawled: 0, pages: [], errors: [`Invalid URL: ${startUrl}`] };
+    return { domain: startUrl, pagesCrawled: 0, pages: [], errors: [`Invalid URL: ${startUrl}`], redirectLoops: [], robotsBlocked: [], crawlDelayMs: 0, sitemap: null, linkCheck: null, linkGraph: { startUrl: null, edges: [], metrics: {} } };
   }
 
   const baseDomain = `${parsedStart.protocol}//${parsedStart.hostname}`;
   const domain = parsedStart.hostname;
   const errors: string[] = [];
 
-  const isAllowed = await fetchRobotsTxt(baseDomain);
+  const robots = await fetchRobotsTxt(baseDomain, config.userAgent);
+  const isAllowed = robots ? robots.isAllowed : null;
+  const crawlDelayMs = Math.min((robots?.crawlDelaySeconds ?? 0) * 1000, MAX_CRAWL_DELAY_MS);
+  const throttle = createCrawlThrottle(parsedStart.hostname, crawlDelayMs, signal);
 
   const visited = new Set<string>();
   const enqueued = new Set<string>();
-  const queue: string[] = [];
+  const redirectLoops: RedirectLoop[] = [];
+  const queue: Array<{ url: string; depth: number }> = [];
+  // Sitemap URLs are only crawled once link discovery runs dry, so they can't use up the page budget
+  // before linked pages are found, and pages they also link to keep their real click depth. They count
+  // as one click from the start page, so a maxDepth of 0 still reads the sitemaps but crawls none of them.
+  const sitemapQueue: string[] = [];
   const pages: CrawledPage[] = [];
 
   const startNorm = normalizeUrl(startUrl, baseDomain);
   if (startNorm) {
-    queue.push(startNorm);
+    queue.push({ url: startNorm, depth: 0 });
     enqueued.add(startNorm);
   }
 
+  const sitemapUrls = new Set<string>();
+  let sitemapSources: string[] = [];
+  if (config.useSitemap) {
+    const candidates = Array.from(new Set([...(robots?.sitemaps ?? []), `${baseDomain}/sitemap.xml`]));
+    const discovery = await discoverSitemapUrls(candidates);
+    sitemapSources = discovery.sitemaps;
+    errors.push(...discovery.errors);
+    for (const raw of discovery.urls) {
+      const norm = normalizeUrl(raw, baseDomain);
+      if (!norm || new URL(norm).hostname !== parsedStart.hostname) continue;
+      if (!sitemapUrls.has(norm)) {
+        sitemapUrls.add(norm);
+        if (config.maxDepth >= 1) sitemapQueue.push(norm);
+      }
+    }
+    console.log(`[Crawler] Seeded ${sitemapUrls.size} URLs from ${sitemapSources.length} sitemap(s) for ${domain}`);
+  }
+
+  signal?.throwIfAborted();
+
   let browser: Browser;
   try {
     browser = await chromium.launch({
@@ -276,12 +624,18 @@ export async function crawlDomain(startUrl: string): Promise<CrawlResult> {
       ],
     });
   } catch (err: any) {
-    return { domain, pagesCrawled: 0, pages: [], errors: [`Browser launch failed: ${err.message}`] };
+    return { domain, pagesCrawled: 0, pages: [], errors: [`Browser launch failed: ${err.message}`], redirectLoops: [], robotsBlocked: [], crawlDelayMs: 0, sitemap: null, linkCheck: null, linkGraph: { startUrl: null, edges: [], metrics: {} } };
   }
 
+  const closeOnAbort = () => {
+    browser.close().catch(() => {});
+  };
+  signal?.addEventListener("abort", closeOnAbort, { once: true });
+
   try {
-    while (queue.length > 0 && pages.length < MAX_PAGES) {
-      const url = queue.shift()!;
+    while ((queue.length > 0 || sitemapQueue.length > 0) && pages.length < config.maxPages) {
+      signal?.throwIfAborted();
+      const { url, depth } = queue.shift() ?? { url: sitemapQueue.shift()!, depth: 1 };
       if (visited.has(url)) continue;
       visited.add(url);
 
@@ -298,40 +652,104 @@ export async function crawlDomain(startUrl: string): Promise<CrawlResult> {
         continue;
       }
 
+      if (depth > 0 && !isUrlInScope(url, config)) {
+        continue;
+      }
+
       if (isAllowed && !isAllowed(url)) {
         errors.push(`Blocked by robots.txt: ${url}`);
         continue;
       }
 
-      console.log(`[Crawler] Crawling (${pages.length + 1}/${MAX_PAGES}): ${url}`);
+      console.log(`[Crawler] Crawling (${pages.length + 1}/${config.maxPages}, depth ${depth}): ${url}`);
 
-      const { data, discoveredLinks } = await crawlPageWithRetry(browser, url, baseDomain);
+      const { data, redirectLoop } = await crawlPageWithRetry(browser, url, baseDomain, config, screenshotPrefix, throttle);
+
+      if (redirectLoop) {
+        redirectLoops.push({ url, chain: await traceRedirects(url, config.userAgent, throttle) });
+        errors.push(`Redirect loop: ${url}`);
+        await onPage?.({ url, depth, httpStatus: null, crawled: pages.length, error: "Redirect loop" });
+        continue;
+      }
 
       if (data) {
         pages.push(data);
-        for (const link of discoveredLinks) {
-          const norm = normalizeUrl(link, baseDomain);
+        await onPage?.({ url, depth, httpStatus: data.httpStatus ?? null, crawled: pages.length });
+        if (depth >= config.maxDepth || data.robots.nofollow) continue;
+        for (const link of data.links) {
+          if (!link.internal || link.nofollow) continue;
+          const norm = normalizeUrl(link.href, baseDomain);
           if (norm && !visited.has(norm) && !enqueued.has(norm)) {
             enqueued.add(norm);
-            queue.push(norm);
+            queue.push({ url: norm, depth: depth + 1 });
           }
         }
       } else {
         errors.push(`Failed to crawl: ${url}`);
+        await onPage?.({ url, depth, httpStatus: null, crawled: pages.length, error: "Failed to crawl" });
       }
     }
   } finally {
+    signal?.removeEventListener("abort", closeOnAbort);
     try {
       await browser.close();
     } catch {}
   }
 
+  signal?.throwIfAborted();
+
   console.log(`[Crawler] Finished: ${pages.length} pages crawled for ${domain}`);
 
+  const linkGraph = buildLinkGraph(pages, startNorm, (raw) => normalizeUrl(raw, baseDomain));
+  const linked = new Set(linkGraph.edges.filter((e) => e.source !== e.target).map((e) => e.target));
+  const crawledUrls = new Set(pages.map((p) => p.url));
+
+  const blockedSources = new Map<string, Set<string>>();
+  if (isAllowed) {
+    for (const edge of linkGraph.edges) {
+      if (isAllowed(edge.target)) continue;
+      const sources = blockedSources.get(edge.target) ?? new Set<string>();
+      sources.add(edge.source);
+      blockedSources.set(edge.target, sources);
+    }
+  }
+  const robotsBlocked: BlockedUrl[] = Array.from(blockedSources.entries()).map(([blockedUrl, sources]) => ({
+    url: blockedUrl,
+    linkedFrom: Array.from(sources),
+  }));
+
+  const sitemap: SitemapCoverage | null = config.useSitemap
+    ? {
+        sitemaps: sitemapSources,
+        totalUrls: sitemapUrls.size,
+        unlinkedUrls: Array.from(sitemapUrls).filter((u) => u !== startNorm && crawledUrls.has(u) && !linked.has(u)),
+        notCrawledUrls: Array.from(sitemapUrls).filter((u) => !crawledUrls.has(u)),
+        missingFromSitemap: sitemapUrls.size > 0
+          ? pages.map((p) => p.url).filter((u) => !sitemapUrls.has(u))
+          : [],
+      }
+    : null;
+
+  let linkCheck: LinkCheckResult | null = null;
+  if (config.checkLinks && pages.length > 0) {
+    try {
+      linkCheck = await checkLinks(pages, config.userAgent, { [parsedStart.host]: crawlDelayMs }, signal);
+    } catch (err: any) {
+      signal?.throwIfAborted();
+      errors.push(`Link check failed: ${err.message}`);
+    }
+  }
+
   return {
     domain,
     pagesCrawled: pages.length,
     pages,
     errors,
+    redirectLoops,
+    robotsBlocked,
+    crawlDelayMs,
+    sitemap,
+    linkCheck,
+    linkGraph,
   };
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron } from "./cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute strictly after the start time", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:07:30Z"))).toEqual(at("2026-03-10T10:15:00Z"));
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:15:00Z"))).toEqual(at("2026-03-10T10:30:00Z"));
+  });
+
+  it("rolls over hours, days and months", () => {
+    expect(nextCronRun("0 3 * * *", at("2026-03-10T04:00:00Z"))).toEqual(at("2026-03-11T03:00:00Z"));
+    expect(nextCronRun("30 6 1 * *", at("2026-12-15T00:00:00Z"))).toEqual(at("2027-01-01T06:30:00Z"));
+  });
+
+  it("treats 0 and 7 as Sunday", () => {
+    // 2026-03-10 is a Tuesday.
+    expect(nextCronRun("0 9 * * 0", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-03-15T09:00:00Z"));
+    expect(nextCronRun("0 9 * * 7", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-03-15T09:00:00Z"));
+  });
+
+  it("matches either a restricted day of month or day of week", () => {
+    // The 20th or any Friday, whichever comes first; Friday the 13th here.
+    expect(nextCronRun("0 0 20 * 5", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-03-13T00:00:00Z"));
+  });
+
+  it("finds Feb 29 in the next leap year", () => {
+    expect(nextCronRun("0 0 29 2 *", at("2026-03-01T00:00:00Z"))).toEqual(at("2028-02-29T00:00:00Z"));
+  });
+
+  it("throws for dates that never exist", () => {
+    expect(() => nextCronRun("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toThrow(/never matches/);
+  });
+});
+
+describe("parseCron", () => {
+  it("expands ranges, steps and lists", () => {
+    const cron = parseCron("0-30/10 1,5-6 * * 1-5");
+    expect(Array.from(cron.minute.values)).toEqual([0, 10, 20, 30]);
+    expect(Array.from(cron.hour.values)).toEqual([1, 5, 6]);
+    expect(cron.dayOfMonth.wildcard).toBe(true);
+    expect(Array.from(cron.dayOfWeek.values)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/minute field/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/Invalid step/);
+    expect(() => parseCron("* 5-1 * * *")).toThrow(/hour field/);
+  });
+});
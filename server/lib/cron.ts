@@ -0,0 +1,108 @@
+// Minimal five-field cron support (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Each field accepts `*`, numbers, ranges (`1-5`), steps (`*/15`, `0-30/10`) and comma-separated lists.
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const fieldRanges: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const fieldNames = ["minute", "hour", "day of month", "month", "day of week"];
+
+// Four years covers every valid combination, including Feb 29.
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+function parseField(source: string, index: number): CronField {
+  const [min, max] = fieldRanges[index];
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${fieldNames[index]} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      [start, end] = rangePart.split("-").map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in ${fieldNames[index]} field`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  // Sunday may be written as 0 or 7.
+  if (index === 4 && values.has(7)) {
+    values.delete(7);
+    values.add(0);
+  }
+  return { values, wildcard: source === "*" };
+}
+
+export function parseCron(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map(parseField);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+// Like classic cron, a restricted day-of-month and day-of-week match when either one does.
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dom = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dow = cron.dayOfWeek.values.has(date.getUTCDay());
+  if (cron.dayOfMonth.wildcard) return dow;
+  if (cron.dayOfWeek.wildcard) return dom;
+  return dom || dow;
+}
+
+/** Returns the first time strictly after `from` that matches the expression. */
+export function nextCronRun(expression: string, from: Date = new Date()): Date {
+  const cron = parseCron(expression);
+  const date = new Date(from);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_MINUTES * 60_000;
+  while (date.getTime() <= limit) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
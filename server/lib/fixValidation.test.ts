@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { buildRepairPrompt, validateAiFix } from "./fixValidation";
+
+const pageUrl = "https://example.com/pricing?plan=pro&period=year";
+
+function fix(overrides: Record<string, unknown> = {}, jsonLd: Record<string, unknown> = {}) {
+  return {
+    optimizedTitle: "Pricing Plans for Teams of Every Size | Example App",
+    optimizedMetaDescription:
+      "Compare Example App pricing plans side by side, from a free starter tier to enterprise support, and pick the plan that fits your team today.",
+    improvedH1: "Simple pricing for every team",
+    suggestedInternalLinkingText: "see our pricing plans",
+    jsonLdSchema: { "@context": "https://schema.org", "@type": "WebPage", name: "Pricing", url: pageUrl, ...jsonLd },
+    ...overrides,
+  };
+}
+
+describe("validateAiFix", () => {
+  it("accepts a fix that follows the prompt", () => {
+    const result = validateAiFix(fix(), pageUrl);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it("reports missing fields without checking the rest", () => {
+    const result = validateAiFix({ optimizedTitle: "Pricing" }, pageUrl);
+    expect(result.valid).toBe(false);
+    expect(result.output).toBeNull();
+    expect(result.errors).toContainEqual(expect.stringMatching(/^optimizedMetaDescription:/));
+  });
+
+  it("flags titles and descriptions outside the length limits", () => {
+    const result = validateAiFix(fix({ optimizedTitle: "Pricing", optimizedMetaDescription: "Cheap plans." }), pageUrl);
+    expect(result.errors).toEqual([
+      "optimizedTitle is 7 characters; it must be 50-60",
+      "optimizedMetaDescription is 12 characters; it must be 120-160",
+    ]);
+  });
+
+  it("checks the JSON-LD context, type and url", () => {
+    const result = validateAiFix(
+      fix({}, { "@context": "http://example.org", "@type": ["WebPage", "pricing page"], url: "https://example.com/" }),
+      pageUrl,
+    );
+    expect(result.errors).toEqual([
+      'jsonLdSchema @context must be "https://schema.org", not "http://example.org"',
+      'jsonLdSchema @type "pricing page" is not a schema.org type name',
+      `jsonLdSchema url must be the page URL ${pageUrl}, not "https://example.com/"`,
+    ]);
+  });
+
+  it("accepts any schema.org type name, not just common ones", () => {
+    expect(validateAiFix(fix({}, { "@type": "Dentist" }), pageUrl).valid).toBe(true);
+    expect(validateAiFix(fix({}, { "@type": ["LocalBusiness", "TouristAttraction"] }), pageUrl).valid).toBe(true);
+  });
+
+  it("treats a trailing slash, a fragment or reordered query parameters as the same page", () => {
+    const url = "https://example.com/pricing/?period=year&plan=pro#plans";
+    expect(validateAiFix(fix({}, { url }), pageUrl).valid).toBe(true);
+    expect(validateAiFix(fix({}, { url: "https://example.com/pricing?plan=team" }), pageUrl).valid).toBe(false);
+  });
+
+  it("rejects placeholder text", () => {
+    const result = validateAiFix(fix({ improvedH1: "Pricing for [your brand]", suggestedInternalLinkingText: "TODO" }), pageUrl);
+    expect(result.errors).toEqual([
+      'improvedH1 contains placeholder text "[your brand]"',
+      'suggestedInternalLinkingText contains placeholder text "TODO"',
+    ]);
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("lists every error", () => {
+    expect(buildRepairPrompt(["first problem", "second problem"])).toContain("- first problem\n- second problem");
+  });
+});
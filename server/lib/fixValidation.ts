@@ -0,0 +1,104 @@
+import { aiFixOutputSchema, type AiFixOutput } from "@shared/schema";
+
+export const TITLE_LENGTH = { min: 50, max: 60 };
+export const DESCRIPTION_LENGTH = { min: 120, max: 160 };
+
+// schema.org type names are PascalCase ("Dentist", "WebPage"); anything else is made up or a description.
+const SCHEMA_ORG_TYPE_NAME = /^[A-Z][A-Za-z0-9]*$/;
+
+// Template markers the prompt itself uses, plus the usual filler a model leaves behind.
+const PLACEHOLDER_PATTERNS: RegExp[] = [
+  /<[^>]{2,}>/,
+  /\{\{.*?\}\}/,
+  /\[(insert|your|add|keyword|brand|company)[^\]]*\]/i,
+  /lorem ipsum/i,
+  /\bplaceholder\b/i,
+  /\b(TODO|TBD|XXX)\b/,
+  /\byour (primary )?keyword\b/i,
+  /\b(company|brand) name\b/i,
+];
+
+export type AiFixValidationResult =
+  | { valid: true; output: AiFixOutput; errors: [] }
+  | { valid: false; output: AiFixOutput | null; errors: string[] };
+
+// A trailing slash, a fragment or the order of query parameters doesn't make it a different page.
+function comparableUrl(value: string): string {
+  const url = new URL(value);
+  url.hash = "";
+  url.searchParams.sort();
+  url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+  return url.href;
+}
+
+function sameUrl(a: string, b: string): boolean {
+  try {
+    return comparableUrl(a) === comparableUrl(b);
+  } catch {
+    return false;
+  }
+}
+
+function findPlaceholder(value: string): string | null {
+  const match = PLACEHOLDER_PATTERNS.map((p) => value.match(p)).find(Boolean);
+  return match ? match[0] : null;
+}
+
+/** Checks raw model output for one page against the shape and rules the fix prompt asks for. */
+export function validateAiFix(raw: unknown, pageUrl: string): AiFixValidationResult {
+  const parsed = aiFixOutputSchema.safeParse(raw);
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map((i) => `${i.path.join(".") || "response"}: ${i.message}`);
+    return { valid: false, output: null, errors };
+  }
+
+  const output = parsed.data;
+  const errors: string[] = [];
+
+  const titleLength = output.optimizedTitle.length;
+  if (titleLength < TITLE_LENGTH.min || titleLength > TITLE_LENGTH.max) {
+    errors.push(`optimizedTitle is ${titleLength} characters; it must be ${TITLE_LENGTH.min}-${TITLE_LENGTH.max}`);
+  }
+  const descriptionLength = output.optimizedMetaDescription.length;
+  if (descriptionLength < DESCRIPTION_LENGTH.min || descriptionLength > DESCRIPTION_LENGTH.max) {
+    errors.push(
+      `optimizedMetaDescription is ${descriptionLength} characters; it must be ${DESCRIPTION_LENGTH.min}-${DESCRIPTION_LENGTH.max}`,
+    );
+  }
+
+  const jsonLd = output.jsonLdSchema;
+  if (!/^https?:\/\/schema\.org\/?$/.test(jsonLd["@context"])) {
+    errors.push(`jsonLdSchema @context must be "https://schema.org", not "${jsonLd["@context"]}"`);
+  }
+  const types = Array.isArray(jsonLd["@type"]) ? jsonLd["@type"] : [jsonLd["@type"]];
+  const invalidTypes = types.filter((t) => typeof t !== "string" || !SCHEMA_ORG_TYPE_NAME.test(t));
+  if (invalidTypes.length > 0) {
+    errors.push(`jsonLdSchema @type ${invalidTypes.map((t) => `"${t}"`).join(", ")} is not a schema.org type name`);
+  }
+  if (!sameUrl(jsonLd.url, pageUrl)) {
+    errors.push(`jsonLdSchema url must be the page URL ${pageUrl}, not "${jsonLd.url}"`);
+  }
+
+  const textFields: Array<[string, string | undefined]> = [
+    ["optimizedTitle", output.optimizedTitle],
+    ["optimizedMetaDescription", output.optimizedMetaDescription],
+    ["improvedH1", output.improvedH1],
+    ["suggestedInternalLinkingText", output.suggestedInternalLinkingText],
+    ["jsonLdSchema.name", jsonLd.name],
+    ["jsonLdSchema.description", jsonLd.description],
+  ];
+  for (const [field, value] of textFields) {
+    const placeholder = value ? findPlaceholder(value) : null;
+    if (placeholder) errors.push(`${field} contains placeholder text "${placeholder}"`);
+  }
+
+  return errors.length === 0 ? { valid: true, output, errors: [] } : { valid: false, output, errors };
+}
+
+/** Follow-up message asking the model to correct its previous answer. */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your JSON did not pass validation:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Return the complete corrected JSON object with the same structure. Count characters carefully, use the page's real URL, and replace any placeholder with real text based on the page data. Return ONLY valid JSON.`;
+}
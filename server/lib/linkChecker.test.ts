@@ -0,0 +1,124 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { CrawledPage, PageLink } from "./crawler";
+import { checkLinks } from "./linkChecker";
+
+let server: Server;
+let origin: string;
+const requests: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    switch (req.url) {
+      case "/ok":
+        res.writeHead(200).end("ok");
+        return;
+      case "/head-not-allowed":
+        res.writeHead(req.method === "HEAD" ? 405 : 200).end();
+        return;
+      case "/moved":
+        res.writeHead(301, { Location: "/gone" }).end();
+        return;
+      case "/error":
+        res.writeHead(500).end();
+        return;
+      case "/hang":
+        // Never answers, like a server that accepts the connection and stalls.
+        return;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+function link(path: string, text: string, internal = true): PageLink {
+  return { href: `${origin}${path}`, text, internal, nofollow: false, selector: "a" };
+}
+
+function page(path: string, links: PageLink[], httpStatus: number | null = 200): CrawledPage {
+  return { url: `${origin}${path}`, finalUrl: `${origin}${path}`, httpStatus, links } as CrawledPage;
+}
+
+// A port nothing is listening on, so requests to it are refused.
+async function unusedOrigin(): Promise<string> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return `http://127.0.0.1:${port}`;
+}
+
+describe("checkLinks", () => {
+  it("reports broken targets with every page that links to them", async () => {
+    const pages = [
+      page("/", [link("/ok", "Fine"), link("/missing", "Docs"), link("/moved", "Old page"), link("/error", "Status", false)]),
+      page("/about", [link("/missing", "Read the docs"), link("/missing", "Read the docs"), link("/head-not-allowed", "Form")]),
+    ];
+
+    const result = await checkLinks(pages, "test-agent");
+    const byPath = Object.fromEntries(result.links.map((l) => [l.url.slice(origin.length), l]));
+
+    expect(result.checked).toBe(5);
+    expect(result.skipped).toBe(0);
+    expect(byPath["/ok"]).toMatchObject({ status: 200, broken: false });
+    expect(byPath["/head-not-allowed"]).toMatchObject({ status: 200, broken: false });
+    expect(byPath["/moved"]).toMatchObject({ status: 404, broken: true });
+    expect(byPath["/error"]).toMatchObject({ status: 500, broken: true, internal: false });
+    expect(byPath["/missing"]).toMatchObject({ status: 404, broken: true });
+    expect(byPath["/missing"].sources).toEqual([
+      { pageUrl: `${origin}/`, anchorText: "Docs" },
+      { pageUrl: `${origin}/about`, anchorText: "Read the docs" },
+    ]);
+  });
+
+  it("falls back to GET only when HEAD fails", async () => {
+    await checkLinks([page("/", [link("/ok", "Fine"), link("/head-not-allowed", "Form")])], "test-agent");
+
+    expect(requests.filter((r) => r.endsWith("/ok"))).toEqual(["HEAD /ok"]);
+    expect(requests.filter((r) => r.endsWith("/head-not-allowed"))).toEqual(["HEAD /head-not-allowed", "GET /head-not-allowed"]);
+  });
+
+  it("reuses the status of crawled pages instead of requesting them again", async () => {
+    const pages = [page("/", [link("/about", "About")]), page("/about", [link("/", "Home")], 200)];
+
+    const result = await checkLinks(pages, "test-agent");
+
+    expect(result.links.every((l) => l.status === 200 && !l.broken)).toBe(true);
+    expect(requests).toEqual([]);
+  });
+
+  it("records connection errors as broken links", async () => {
+    const deadHost = await unusedOrigin();
+    const pages = [page("/", [{ href: `${deadHost}/`, text: "Dead host", internal: false, nofollow: false, selector: "a" }])];
+
+    const result = await checkLinks(pages, "test-agent");
+
+    expect(result.links[0]).toMatchObject({ status: null, broken: true, error: "ECONNREFUSED" });
+  });
+
+  it("stops checking once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const pages = [page("/", [link("/hang", "Stalls"), ...["/a", "/b", "/c", "/d", "/e", "/f"].map((p) => link(p, p))])];
+    setTimeout(() => controller.abort(new Error("Audit cancelled")), 100);
+
+    const started = Date.now();
+    await expect(checkLinks(pages, "test-agent", {}, controller.signal)).rejects.toThrow("Audit cancelled");
+
+    // The stalled check was cancelled rather than left to its timeout, and nothing queued behind it ran.
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(requests).toEqual(["HEAD /hang"]);
+  });
+});
@@ -0,0 +1,142 @@
+import pLimit from "p-limit";
+import type { CrawledPage } from "./crawler";
+
+const CHECK_TIMEOUT = 8000;
+const CONCURRENCY = 4;
+const PER_HOST_DELAY_MS = 250;
+const MAX_TARGETS = 1000;
+
+export interface LinkSource {
+  pageUrl: string;
+  anchorText: string;
+}
+
+export interface CheckedLink {
+  url: string;
+  internal: boolean;
+  status: number | null;
+  error: string | null;
+  broken: boolean;
+  sources: LinkSource[];
+}
+
+export interface LinkCheckResult {
+  checked: number;
+  skipped: number;
+  links: CheckedLink[];
+}
+
+interface LinkStatus {
+  status: number | null;
+  error: string | null;
+}
+
+async function request(url: string, method: "HEAD" | "GET", userAgent: string, signal?: AbortSignal): Promise<number> {
+  const timeout = AbortSignal.timeout(CHECK_TIMEOUT);
+  const res = await fetch(url, {
+    method,
+    redirect: "follow",
+    headers: { "User-Agent": userAgent },
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+  if (method === "GET") {
+    try { await res.body?.cancel(); } catch {}
+  }
+  return res.status;
+}
+
+async function checkUrl(url: string, userAgent: string, signal?: AbortSignal): Promise<LinkStatus> {
+  try {
+    const status = await request(url, "HEAD", userAgent, signal);
+    // Plenty of servers reject or mishandle HEAD, so confirm failures with GET.
+    if (status < 400) return { status, error: null };
+  } catch {}
+  try {
+    const status = await request(url, "GET", userAgent, signal);
+    return { status, error: null };
+  } catch (err: any) {
+    return { status: null, error: err.name === "TimeoutError" ? "Timed out" : err.cause?.code || err.message };
+  }
+}
+
+function createHostThrottle(delayMs: number, hostDelays: Record<string, number>) {
+  const nextSlot = new Map<string, number>();
+  return async function waitForHost(url: string, signal?: AbortSignal): Promise<void> {
+    let host = url;
+    try { host = new URL(url).host; } catch {}
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+    nextSlot.set(host, slot + Math.max(delayMs, hostDelays[host] ?? 0));
+    if (slot <= now || signal?.aborted) return;
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, slot - now);
+      signal?.addEventListener("abort", done, { once: true });
+    });
+  };
+}
+
+/** Aborting `signal` stops queued checks, cancels those in flight and makes checkLinks throw its reason. */
+export async function checkLinks(
+  pages: CrawledPage[],
+  userAgent: string,
+  hostDelays: Record<string, number> = {},
+  signal?: AbortSignal
+): Promise<LinkCheckResult> {
+  const targets = new Map<string, CheckedLink>();
+  for (const page of pages) {
+    for (const link of page.links) {
+      let entry = targets.get(link.href);
+      if (!entry) {
+        entry = { url: link.href, internal: link.internal, status: null, error: null, broken: false, sources: [] };
+        targets.set(link.href, entry);
+      }
+      if (!entry.sources.some((s) => s.pageUrl === page.url && s.anchorText === link.text)) {
+        entry.sources.push({ pageUrl: page.url, anchorText: link.text });
+      }
+    }
+  }
+
+  // Pages we already loaded in the browser don't need a second request.
+  const cache = new Map<string, LinkStatus>();
+  for (const page of pages) {
+    if (page.httpStatus !== null) {
+      cache.set(page.url, { status: page.httpStatus, error: null });
+      cache.set(page.finalUrl, { status: page.httpStatus, error: null });
+    }
+  }
+
+  const all = Array.from(targets.values());
+  const toCheck = all.slice(0, MAX_TARGETS);
+  const limit = pLimit(CONCURRENCY);
+  const waitForHost = createHostThrottle(PER_HOST_DELAY_MS, hostDelays);
+
+  await Promise.all(
+    toCheck.map((link) =>
+      limit(async () => {
+        if (signal?.aborted) return;
+        let result = cache.get(link.url);
+        if (!result) {
+          await waitForHost(link.url, signal);
+          if (signal?.aborted) return;
+          result = await checkUrl(link.url, userAgent, signal);
+          if (signal?.aborted) return;
+          cache.set(link.url, result);
+        }
+        link.status = result.status;
+        link.error = result.error;
+        link.broken = result.status === null || result.status >= 400;
+      })
+    )
+  );
+
+  signal?.throwIfAborted();
+
+  console.log(`[LinkChecker] Checked ${toCheck.length} unique link targets, ${toCheck.filter((l) => l.broken).length} broken`);
+
+  return { checked: toCheck.length, skipped: all.length - toCheck.length, links: toCheck };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { CrawledPage, PageLink } from "./crawler";
+import { buildLinkGraph } from "./linkGraph";
+import { normalizeUrl } from "./urls";
+
+const site = "https://example.com";
+
+function link(href: string, options: Partial<PageLink> = {}): PageLink {
+  return { href, text: href, internal: true, nofollow: false, selector: "a", ...options };
+}
+
+function page(path: string, links: PageLink[]): CrawledPage {
+  return { url: `${site}${path}`, finalUrl: `${site}${path}`, links } as CrawledPage;
+}
+
+const normalize = (raw: string) => normalizeUrl(raw, site);
+
+describe("buildLinkGraph", () => {
+  it("measures click depth along the shortest path from the start page", () => {
+    const pages = [
+      page("/", [link("/a"), link("/b")]),
+      page("/a", [link("/c")]),
+      page("/b", [link("/c"), link("/a")]),
+      page("/c", [link("/d")]),
+      page("/d", []),
+      page("/orphan", [link("/")]),
+    ];
+    const { metrics } = buildLinkGraph(pages, `${site}/`, normalize);
+
+    expect(metrics[`${site}/`].clickDepth).toBe(0);
+    expect(metrics[`${site}/a`].clickDepth).toBe(1);
+    expect(metrics[`${site}/c`].clickDepth).toBe(2);
+    expect(metrics[`${site}/d`].clickDepth).toBe(3);
+    expect(metrics[`${site}/orphan`].clickDepth).toBeNull();
+  });
+
+  it("counts distinct linking pages and ignores self-links and external links", () => {
+    const pages = [
+      page("/", [link("/a"), link("/a", { text: "again" }), link("/"), link("https://other.com/", { internal: false })]),
+      page("/a", [link("/")]),
+    ];
+    const graph = buildLinkGraph(pages, `${site}/`, normalize);
+
+    expect(graph.edges).toHaveLength(4);
+    expect(graph.metrics[`${site}/a`].inboundLinks).toBe(1);
+    expect(graph.metrics[`${site}/`].inboundLinks).toBe(1);
+    expect(graph.metrics[`${site}/`].outboundLinks).toBe(1);
+  });
+
+  it("gives more PageRank to well linked pages and none through nofollow links", () => {
+    const pages = [
+      page("/", [link("/hub"), link("/leaf"), link("/hidden", { nofollow: true })]),
+      page("/hub", [link("/")]),
+      page("/leaf", [link("/hub")]),
+      page("/hidden", [link("/hub")]),
+    ];
+    const { metrics } = buildLinkGraph(pages, `${site}/`, normalize);
+    const total = Object.values(metrics).reduce((sum, m) => sum + m.pageRank, 0);
+
+    expect(total).toBeCloseTo(1, 6);
+    expect(metrics[`${site}/hub`].pageRank).toBeGreaterThan(metrics[`${site}/leaf`].pageRank);
+    expect(metrics[`${site}/leaf`].pageRank).toBeGreaterThan(metrics[`${site}/hidden`].pageRank);
+    // Still reachable for click depth, but the nofollow link passes no rank.
+    expect(metrics[`${site}/hidden`].clickDepth).toBe(1);
+    expect(metrics[`${site}/hidden`].pageRank).toBeCloseTo(0.15 / 4, 6);
+  });
+});
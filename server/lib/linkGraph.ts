@@ -0,0 +1,124 @@
+import type { CrawledPage } from "./crawler";
+
+const DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 40;
+
+export interface LinkEdge {
+  source: string;
+  target: string;
+  anchorText: string;
+  nofollow: boolean;
+}
+
+export interface PageGraphMetrics {
+  url: string;
+  clickDepth: number | null;
+  inboundLinks: number;
+  outboundLinks: number;
+  pageRank: number;
+}
+
+export interface LinkGraph {
+  startUrl: string | null;
+  edges: LinkEdge[];
+  metrics: Record<string, PageGraphMetrics>;
+}
+
+export function buildLinkGraph(
+  pages: CrawledPage[],
+  startUrl: string | null,
+  normalize: (raw: string) => string | null
+): LinkGraph {
+  const edges: LinkEdge[] = [];
+  const seenEdges = new Set<string>();
+  for (const page of pages) {
+    for (const link of page.links) {
+      if (!link.internal) continue;
+      const target = normalize(link.href);
+      if (!target) continue;
+      const key = `${page.url}\n${target}\n${link.text}`;
+      if (seenEdges.has(key)) continue;
+      seenEdges.add(key);
+      edges.push({ source: page.url, target, anchorText: link.text, nofollow: link.nofollow });
+    }
+  }
+
+  const nodes = pages.map((p) => p.url);
+  const nodeSet = new Set(nodes);
+  const outgoing = new Map<string, Set<string>>();
+  const followed = new Map<string, Set<string>>();
+  const inboundSources = new Map<string, Set<string>>();
+  for (const url of nodes) {
+    outgoing.set(url, new Set());
+    followed.set(url, new Set());
+    inboundSources.set(url, new Set());
+  }
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    outgoing.get(edge.source)?.add(edge.target);
+    if (!nodeSet.has(edge.target)) continue;
+    inboundSources.get(edge.target)!.add(edge.source);
+    if (!edge.nofollow) followed.get(edge.source)!.add(edge.target);
+  }
+
+  const depths = computeClickDepths(startUrl, outgoing);
+  const ranks = computePageRank(nodes, followed);
+
+  const metrics: Record<string, PageGraphMetrics> = {};
+  for (const url of nodes) {
+    metrics[url] = {
+      url,
+      clickDepth: depths.get(url) ?? null,
+      inboundLinks: inboundSources.get(url)!.size,
+      outboundLinks: outgoing.get(url)!.size,
+      pageRank: ranks.get(url) ?? 0,
+    };
+  }
+
+  return { startUrl, edges, metrics };
+}
+
+function computeClickDepths(startUrl: string | null, outgoing: Map<string, Set<string>>): Map<string, number> {
+  const depths = new Map<string, number>();
+  if (!startUrl || !outgoing.has(startUrl)) return depths;
+  depths.set(startUrl, 0);
+  const queue = [startUrl];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const depth = depths.get(current)!;
+    for (const next of Array.from(outgoing.get(current) ?? [])) {
+      if (depths.has(next)) continue;
+      depths.set(next, depth + 1);
+      queue.push(next);
+    }
+  }
+  return depths;
+}
+
+function computePageRank(nodes: string[], followed: Map<string, Set<string>>): Map<string, number> {
+  const n = nodes.length;
+  let ranks = new Map<string, number>(nodes.map((u) => [u, n > 0 ? 1 / n : 0]));
+  if (n === 0) return ranks;
+
+  for (let iter = 0; iter < PAGERANK_ITERATIONS; iter++) {
+    const next = new Map<string, number>(nodes.map((u) => [u, (1 - DAMPING) / n]));
+    let danglingRank = 0;
+    for (const url of nodes) {
+      const targets = followed.get(url)!;
+      const rank = ranks.get(url)!;
+      if (targets.size === 0) {
+        danglingRank += rank;
+        continue;
+      }
+      const share = (DAMPING * rank) / targets.size;
+      for (const target of Array.from(targets)) {
+        next.set(target, next.get(target)! + share);
+      }
+    }
+    for (const url of nodes) {
+      next.set(url, next.get(url)! + (DAMPING * danglingRank) / n);
+    }
+    ranks = next;
+  }
+  return ranks;
+}
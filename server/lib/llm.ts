@@ -0,0 +1,200 @@
+import OpenAI from "openai";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  /** Names the kind of completion, e.g. "seo-fix". The template provider picks its template by task. */
+  task: string;
+  messages: LlmMessage[];
+  /** Ask for a single JSON object instead of free text. */
+  json?: boolean;
+  /** Structured input the task's template renders from; model-backed providers ignore it. */
+  context?: unknown;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** The model requests go to unless they override it; part of the AI fix cache key. */
+  readonly model: string;
+  /** True when the same task always gets the same answer, so re-prompting can't change it. */
+  readonly deterministic?: boolean;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+export type LlmProviderName = "openai" | "template";
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  /** Null leaves the temperature to the model; reasoning models only accept their default. */
+  temperature: number | null;
+  maxTokens: number;
+  /** Any OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+  /**
+   * Self-hosted servers such as Ollama and llama.cpp read `max_tokens`; OpenAI's reasoning models
+   * only accept `max_completion_tokens`. Defaults to the former when LLM_BASE_URL is set.
+   */
+  legacyMaxTokens: boolean;
+  /** USD per million tokens, for cost estimates. Null when not configured. */
+  inputPricePerMTok: number | null;
+  outputPricePerMTok: number | null;
+}
+
+const DEFAULT_MODEL = "gpt-5-mini";
+const DEFAULT_MAX_TOKENS = 4096;
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 2000;
+
+function numberFromEnv(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function getLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = env.LLM_PROVIDER === "template" ? "template" : "openai";
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    temperature: numberFromEnv(env.LLM_TEMPERATURE),
+    maxTokens: numberFromEnv(env.LLM_MAX_TOKENS) ?? DEFAULT_MAX_TOKENS,
+    baseUrl: env.LLM_BASE_URL || env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    apiKey: env.LLM_API_KEY || env.AI_INTEGRATIONS_OPENAI_API_KEY,
+    legacyMaxTokens: env.LLM_LEGACY_MAX_TOKENS ? env.LLM_LEGACY_MAX_TOKENS === "true" : !!env.LLM_BASE_URL,
+    inputPricePerMTok: numberFromEnv(env.LLM_INPUT_PRICE_PER_MTOK),
+    outputPricePerMTok: numberFromEnv(env.LLM_OUTPUT_PRICE_PER_MTOK),
+  };
+}
+
+/** Estimated spend for the given usage, or null if prices aren't configured. */
+export function estimateLlmCost(usage: Pick<LlmUsage, "promptTokens" | "completionTokens">, config: LlmConfig = getLlmConfig()): number | null {
+  if (config.inputPricePerMTok === null || config.outputPricePerMTok === null) return null;
+  return (usage.promptTokens * config.inputPricePerMTok + usage.completionTokens * config.outputPricePerMTok) / 1_000_000;
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly config: LlmConfig) {
+    // Local servers don't check the key, but the SDK refuses to start without one.
+    this.client = new OpenAI({ apiKey: config.apiKey || "not-needed", baseURL: config.baseUrl });
+    this.model = config.model;
+  }
+
+  private params(request: LlmRequest) {
+    const maxTokens = request.maxTokens ?? this.config.maxTokens;
+    const temperature = request.temperature ?? this.config.temperature;
+    return {
+      model: request.model ?? this.model,
+      messages: request.messages,
+      ...(this.config.legacyMaxTokens ? { max_tokens: maxTokens } : { max_completion_tokens: maxTokens }),
+      ...(temperature !== null ? { temperature } : {}),
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+    };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.chat.completions.create(this.params(request));
+        return {
+          content: response.choices[0]?.message?.content || (request.json ? "{}" : ""),
+          model: response.model,
+          usage: response.usage
+            ? {
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: response.usage.completion_tokens,
+                totalTokens: response.usage.total_tokens,
+              }
+            : null,
+        };
+      } catch (err: any) {
+        if (attempt >= MAX_RETRIES) throw err;
+        const status = err?.status || err?.statusCode;
+        // Back off harder when rate limited.
+        const delay = status === 429 ? RETRY_DELAY_MS * Math.pow(2, attempt) : RETRY_DELAY_MS;
+        console.warn(`[LLM] ${request.task} failed (attempt ${attempt + 1}/${MAX_RETRIES}), retrying in ${delay}ms: ${err.message}`);
+        await new Promise((r) => setTimeout(r, delay));
+      }
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({ ...this.params(request), stream: true });
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+}
+
+export type LlmTemplate = (context: unknown, request: LlmRequest) => string;
+
+const templates = new Map<string, LlmTemplate>();
+
+/** Registers the deterministic output the template provider returns for a task. */
+export function registerLlmTemplate(task: string, template: LlmTemplate): void {
+  templates.set(task, template);
+}
+
+/**
+ * Answers every task from a registered template instead of a model, so output is the same on
+ * every run and nothing leaves the machine. Meant for tests and installs without model access.
+ */
+export class TemplateProvider implements LlmProvider {
+  readonly name = "template";
+  readonly model = "template";
+  readonly deterministic = true;
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const template = templates.get(request.task);
+    if (!template) {
+      throw new Error(`No template registered for LLM task "${request.task}"`);
+    }
+    return { content: template(request.context, request), model: "template", usage: null };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const { content } = await this.complete(request);
+    yield content;
+  }
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const config = getLlmConfig();
+    provider = config.provider === "template" ? new TemplateProvider() : new OpenAICompatibleProvider(config);
+    console.log(`[LLM] Using ${provider.name} provider${config.provider === "openai" ? ` (${config.model})` : ""}`);
+  }
+  return provider;
+}
+
+// Swap in another provider at startup or in tests.
+export function setLlmProvider(next: LlmProvider): void {
+  provider = next;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { mobileUsabilityScript } from "./mobile";
+import { runPageScript } from "./testing/runPageScript";
+
+const html = `<!doctype html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1, user-scalable=no">
+  <!-- jsdom leaves opacity empty unless a stylesheet sets it. -->
+  <style>* { opacity: 1 }</style>
+</head>
+<body>
+  <p class="intro lead extra" style="font-size: 10px" data-rect="0,0,300,20">Fine print</p>
+  <p style="font-size: 16px" data-rect="0,40,300,20">Readable</p>
+  <p style="font-size: 8px">Not rendered</p>
+  <a id="prev" href="/prev" data-rect="0,100,30,30">Prev</a>
+  <a href="/next" class="pager" data-rect="20,100,30,30">Next</a>
+  <a href="/far" data-rect="0,300,60,60">Far</a>
+</body>
+</html>`;
+
+describe("mobileUsabilityScript", () => {
+  it("runs as a serialized page script", () => {
+    const result = runPageScript(mobileUsabilityScript, { minFont: 12, minTap: 48, maxReported: 10 }, html);
+
+    expect(result.viewportMeta).toBe("width=device-width, initial-scale=1, user-scalable=no");
+    expect(result.hasDeviceWidthViewport).toBe(true);
+    expect(result.zoomDisabled).toBe(true);
+    expect(result.textElements).toBe(5);
+    expect(result.smallTextElements).toBe(1);
+    expect(result.smallText).toEqual([{ selector: "p.intro.lead", fontSize: 10, text: "Fine print" }]);
+    expect(result.tapTargets).toBe(3);
+    expect(result.overlappingTapTargets).toEqual([{ first: "a#prev", second: "a.pager", firstText: "", secondText: "" }]);
+  });
+});
@@ -0,0 +1,148 @@
+import { devices, type Page } from "playwright-core";
+
+export const MOBILE_DEVICE = devices["Pixel 5"];
+
+const MIN_FONT_SIZE_PX = 12;
+const MIN_TAP_TARGET_PX = 48;
+const MAX_REPORTED = 10;
+
+export interface OverflowingElement {
+  selector: string;
+  right: number;
+}
+
+export interface SmallTextSample {
+  selector: string;
+  fontSize: number;
+  text: string;
+}
+
+export interface TapTargetOverlap {
+  first: string;
+  second: string;
+  firstText: string;
+  secondText: string;
+}
+
+export interface MobileUsability {
+  viewportWidth: number;
+  viewportMeta: string | null;
+  hasDeviceWidthViewport: boolean;
+  zoomDisabled: boolean;
+  scrollWidth: number;
+  horizontalOverflow: boolean;
+  overflowingElements: OverflowingElement[];
+  textElements: number;
+  smallTextElements: number;
+  smallText: SmallTextSample[];
+  tapTargets: number;
+  overlappingTapTargets: TapTargetOverlap[];
+}
+
+/** Runs inside the page through page.evaluate, so it may only use what it declares itself and the page's own globals. */
+export function mobileUsabilityScript(args: { minFont: number; minTap: number; maxReported: number }): MobileUsability {
+  // Object methods, not named functions: tsx (esbuild keepNames) follows every named function with a
+  // `__name()` call, and that helper doesn't exist in the page.
+  var dom = {
+    describe(el: Element): string {
+      if (el.id) return el.tagName.toLowerCase() + "#" + el.id;
+      var cls = (el.getAttribute("class") || "").trim().split(/\s+/).filter(function(c) { return c.length > 0; }).slice(0, 2);
+      return el.tagName.toLowerCase() + (cls.length > 0 ? "." + cls.join(".") : "");
+    },
+
+    isVisible(el: Element, rect: DOMRect): boolean {
+      if (rect.width === 0 || rect.height === 0) return false;
+      var style = getComputedStyle(el);
+      return style.visibility !== "hidden" && style.display !== "none" && parseFloat(style.opacity) > 0;
+    },
+  };
+
+  var viewportEl = document.querySelector('meta[name="viewport" i]');
+  var viewportMeta = viewportEl ? viewportEl.getAttribute("content") : null;
+  var viewportLower = (viewportMeta || "").toLowerCase().replace(/\s+/g, "");
+  var maxScaleMatch = /maximum-scale=([\d.]+)/.exec(viewportLower);
+  var zoomDisabled = /user-scalable=(no|0)/.test(viewportLower) || (!!maxScaleMatch && parseFloat(maxScaleMatch[1]) < 2);
+
+  var viewportWidth = window.innerWidth;
+  var scrollWidth = Math.max(document.documentElement.scrollWidth, document.body ? document.body.scrollWidth : 0);
+  var overflowingElements: Array<{ selector: string; right: number }> = [];
+  if (scrollWidth > viewportWidth + 1 && document.body) {
+    var all = Array.from(document.body.querySelectorAll("*"));
+    for (var i = 0; i < all.length && overflowingElements.length < args.maxReported; i++) {
+      var rect = all[i].getBoundingClientRect();
+      if (rect.right > viewportWidth + 1 && dom.isVisible(all[i], rect)) {
+        // Only report the outermost offender, not every descendant of it.
+        var parent = all[i].parentElement;
+        if (parent && parent !== document.body && parent.getBoundingClientRect().right > viewportWidth + 1) continue;
+        overflowingElements.push({ selector: dom.describe(all[i]), right: Math.round(rect.right) });
+      }
+    }
+  }
+
+  var textElements = 0;
+  var smallTextElements = 0;
+  var smallText: Array<{ selector: string; fontSize: number; text: string }> = [];
+  if (document.body) {
+    var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    var seen = new Set<Element>();
+    var node: Node | null;
+    while ((node = walker.nextNode())) {
+      var parentEl = node.parentElement;
+      var text = (node.textContent || "").trim();
+      if (!parentEl || !text || seen.has(parentEl)) continue;
+      if (["SCRIPT", "STYLE", "NOSCRIPT"].indexOf(parentEl.tagName) !== -1) continue;
+      seen.add(parentEl);
+      var parentRect = parentEl.getBoundingClientRect();
+      if (!dom.isVisible(parentEl, parentRect)) continue;
+      textElements++;
+      var fontSize = parseFloat(getComputedStyle(parentEl).fontSize);
+      if (fontSize < args.minFont) {
+        smallTextElements++;
+        if (smallText.length < args.maxReported) {
+          smallText.push({ selector: dom.describe(parentEl), fontSize: Math.round(fontSize * 10) / 10, text: text.slice(0, 80) });
+        }
+      }
+    }
+  }
+
+  var targets = Array.from(document.querySelectorAll('a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [onclick]'))
+    .map(function(el) { return { el: el, rect: el.getBoundingClientRect() }; })
+    .filter(function(t) { return dom.isVisible(t.el, t.rect); });
+  var overlapping: Array<{ first: string; second: string; firstText: string; secondText: string }> = [];
+  for (var a = 0; a < targets.length && overlapping.length < args.maxReported; a++) {
+    for (var b = a + 1; b < targets.length && overlapping.length < args.maxReported; b++) {
+      var ta = targets[a];
+      var tb = targets[b];
+      if (ta.el.contains(tb.el) || tb.el.contains(ta.el)) continue;
+      var small = Math.min(ta.rect.width, ta.rect.height, tb.rect.width, tb.rect.height) < args.minTap;
+      var overlaps = ta.rect.left < tb.rect.right && tb.rect.left < ta.rect.right && ta.rect.top < tb.rect.bottom && tb.rect.top < ta.rect.bottom;
+      if (small && overlaps) {
+        overlapping.push({
+          first: dom.describe(ta.el),
+          second: dom.describe(tb.el),
+          firstText: ((ta.el as HTMLElement).innerText || "").trim().slice(0, 60),
+          secondText: ((tb.el as HTMLElement).innerText || "").trim().slice(0, 60),
+        });
+      }
+    }
+  }
+
+  return {
+    viewportWidth: viewportWidth,
+    viewportMeta: viewportMeta,
+    hasDeviceWidthViewport: viewportLower.indexOf("width=device-width") !== -1,
+    zoomDisabled: zoomDisabled,
+    scrollWidth: scrollWidth,
+    horizontalOverflow: scrollWidth > viewportWidth + 1,
+    overflowingElements: overflowingElements,
+    textElements: textElements,
+    smallTextElements: smallTextElements,
+    smallText: smallText,
+    tapTargets: targets.length,
+    overlappingTapTargets: overlapping,
+  };
+}
+
+export async function collectMobileUsability(page: Page): Promise<MobileUsability> {
+  return page.evaluate(mobileUsabilityScript, { minFont: MIN_FONT_SIZE_PX, minTap: MIN_TAP_TARGET_PX, maxReported: MAX_REPORTED });
+}
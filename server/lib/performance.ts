@@ -0,0 +1,244 @@
+import type { Page, Request } from "playwright-core";
+
+const OVERSIZED_IMAGE_BYTES = 200 * 1024;
+const UNCOMPRESSED_IMAGE_BYTES = 100 * 1024;
+const UNCOMPRESSED_TEXT_BYTES = 2 * 1024;
+
+export interface ResourceTypeStats {
+  count: number;
+  bytes: number;
+}
+
+export interface ImageWeight {
+  url: string;
+  bytes: number;
+  naturalWidth: number;
+  naturalHeight: number;
+  displayWidth: number;
+  displayHeight: number;
+  problem: "oversized" | "uncompressed";
+}
+
+export interface PerformanceMetrics {
+  ttfbMs: number | null;
+  fcpMs: number | null;
+  domContentLoadedMs: number | null;
+  loadMs: number | null;
+  lcpMs: number | null;
+  cls: number | null;
+  tbtMs: number | null;
+  transferBytes: number;
+  requestCount: number;
+  failedRequests: number;
+  requestsByType: Record<string, ResourceTypeStats>;
+  renderBlocking: string[];
+  uncompressedResources: string[];
+  images: ImageWeight[];
+}
+
+interface NetworkEntry {
+  url: string;
+  type: string;
+  bytes: number;
+  contentEncoding: string | null;
+  contentType: string | null;
+}
+
+export interface NetworkRecorder {
+  entries: () => Promise<NetworkEntry[]>;
+  failed: () => number;
+}
+
+// Registered before navigation so long tasks and layout shifts from the initial load are observed.
+export function vitalsInitScript(): void {
+  var w = window as any;
+  w.__devseoVitals = { lcp: null, cls: 0, longTasks: [] };
+  try {
+    new PerformanceObserver(function(list) {
+      var entries = list.getEntries();
+      var last = entries[entries.length - 1] as any;
+      if (last) w.__devseoVitals.lcp = last.renderTime || last.loadTime || last.startTime;
+    }).observe({ type: "largest-contentful-paint", buffered: true });
+  } catch (e) {}
+  try {
+    new PerformanceObserver(function(list) {
+      list.getEntries().forEach(function(entry: any) {
+        if (!entry.hadRecentInput) w.__devseoVitals.cls += entry.value;
+      });
+    }).observe({ type: "layout-shift", buffered: true });
+  } catch (e) {}
+  try {
+    new PerformanceObserver(function(list) {
+      list.getEntries().forEach(function(entry) {
+        w.__devseoVitals.longTasks.push({ start: entry.startTime, duration: entry.duration });
+      });
+    }).observe({ type: "longtask", buffered: true });
+  } catch (e) {}
+}
+
+export function recordNetwork(page: Page): NetworkRecorder {
+  const pending: Promise<NetworkEntry | null>[] = [];
+  let failed = 0;
+
+  page.on("requestfinished", (req: Request) => {
+    pending.push(
+      (async () => {
+        try {
+          const [sizes, response] = await Promise.all([req.sizes(), req.response()]);
+          const headers = response ? await response.allHeaders() : {};
+          const contentLength = parseInt(headers["content-length"] ?? "", 10);
+          const bodyBytes = sizes.responseBodySize > 0 ? sizes.responseBodySize : (isNaN(contentLength) ? 0 : contentLength);
+          return {
+            url: req.url(),
+            type: req.resourceType(),
+            bytes: bodyBytes + Math.max(0, sizes.responseHeadersSize),
+            contentEncoding: headers["content-encoding"] ?? null,
+            contentType: headers["content-type"] ?? null,
+          };
+        } catch {
+          return null;
+        }
+      })()
+    );
+  });
+  page.on("requestfailed", () => { failed++; });
+
+  return {
+    entries: async () => (await Promise.all(pending)).filter((e): e is NetworkEntry => e !== null),
+    failed: () => failed,
+  };
+}
+
+export async function collectPerformance(page: Page, network: NetworkRecorder): Promise<PerformanceMetrics> {
+  const inPage = await page.evaluate(function() {
+    var w = window as any;
+    var nav = performance.getEntriesByType("navigation")[0] as any;
+    var fcpEntry = performance.getEntriesByName("first-contentful-paint")[0];
+    var fcp = fcpEntry ? fcpEntry.startTime : null;
+    var vitals = w.__devseoVitals || null;
+
+    var tbt: number | null = null;
+    if (vitals && fcp !== null) {
+      tbt = 0;
+      for (var i = 0; i < vitals.longTasks.length; i++) {
+        var task = vitals.longTasks[i];
+        if (task.start + task.duration > fcp) tbt += Math.max(0, task.duration - 50);
+      }
+    }
+
+    var blocking: string[] = [];
+    var resources = performance.getEntriesByType("resource") as any[];
+    var hasBlockingStatus = resources.some(function(r) { return typeof r.renderBlockingStatus === "string"; });
+    if (hasBlockingStatus) {
+      resources.forEach(function(r) { if (r.renderBlockingStatus === "blocking") blocking.push(r.name); });
+    } else {
+      Array.from(document.querySelectorAll("head script[src]")).forEach(function(el) {
+        var s = el as HTMLScriptElement;
+        if (!s.async && !s.defer && s.type !== "module") blocking.push(s.src);
+      });
+      Array.from(document.querySelectorAll('head link[rel="stylesheet"]')).forEach(function(el) {
+        var l = el as HTMLLinkElement;
+        if (!l.media || l.media === "all" || l.media === "screen") blocking.push(l.href);
+      });
+    }
+
+    var images = Array.from(document.images).map(function(img) {
+      var rect = img.getBoundingClientRect();
+      return {
+        url: img.currentSrc || img.src,
+        naturalWidth: img.naturalWidth,
+        naturalHeight: img.naturalHeight,
+        displayWidth: Math.round(rect.width),
+        displayHeight: Math.round(rect.height),
+      };
+    });
+
+    return {
+      ttfbMs: nav ? nav.responseStart - nav.startTime : null,
+      fcpMs: fcp,
+      domContentLoadedMs: nav && nav.domContentLoadedEventEnd > 0 ? nav.domContentLoadedEventEnd - nav.startTime : null,
+      loadMs: nav && nav.loadEventEnd > 0 ? nav.loadEventEnd - nav.startTime : null,
+      lcpMs: vitals ? vitals.lcp : null,
+      cls: vitals ? vitals.cls : null,
+      tbtMs: tbt,
+      renderBlocking: blocking,
+      images: images,
+    };
+  });
+
+  const entries = await network.entries();
+  const requestsByType: Record<string, ResourceTypeStats> = {};
+  const bytesByUrl = new Map<string, number>();
+  const uncompressedResources: string[] = [];
+  let transferBytes = 0;
+  for (const entry of entries) {
+    const stats = requestsByType[entry.type] ?? { count: 0, bytes: 0 };
+    stats.count++;
+    stats.bytes += entry.bytes;
+    requestsByType[entry.type] = stats;
+    transferBytes += entry.bytes;
+    bytesByUrl.set(entry.url, entry.bytes);
+
+    const isText = ["document", "script", "stylesheet", "fetch", "xhr"].includes(entry.type)
+      || /^(text\/|application\/(javascript|json|xml))|svg/.test(entry.contentType ?? "");
+    if (isText && entry.bytes > UNCOMPRESSED_TEXT_BYTES && !entry.contentEncoding) {
+      uncompressedResources.push(entry.url);
+    }
+  }
+
+  const images: ImageWeight[] = [];
+  const seenImages = new Set<string>();
+  for (const img of inPage.images) {
+    if (!img.url || seenImages.has(img.url) || img.naturalWidth === 0) continue;
+    seenImages.add(img.url);
+    const bytes = bytesByUrl.get(img.url) ?? 0;
+    const tooLarge = img.displayWidth > 0 && img.naturalWidth > img.displayWidth * 2 && img.naturalHeight > img.displayHeight * 2;
+    const legacyFormat = !/\.(webp|avif)(\?|$)/i.test(img.url) && !img.url.startsWith("data:");
+    if (bytes > OVERSIZED_IMAGE_BYTES || (tooLarge && bytes > UNCOMPRESSED_IMAGE_BYTES / 2)) {
+      images.push({ ...img, bytes, problem: "oversized" });
+    } else if (legacyFormat && bytes > UNCOMPRESSED_IMAGE_BYTES) {
+      images.push({ ...img, bytes, problem: "uncompressed" });
+    }
+  }
+
+  const round = (v: number | null) => (v === null || v === undefined ? null : Math.round(v));
+  return {
+    ttfbMs: round(inPage.ttfbMs),
+    fcpMs: round(inPage.fcpMs),
+    domContentLoadedMs: round(inPage.domContentLoadedMs),
+    loadMs: round(inPage.loadMs),
+    lcpMs: round(inPage.lcpMs),
+    cls: inPage.cls === null ? null : Math.round(inPage.cls * 1000) / 1000,
+    tbtMs: round(inPage.tbtMs),
+    transferBytes,
+    requestCount: entries.length,
+    failedRequests: network.failed(),
+    requestsByType,
+    renderBlocking: inPage.renderBlocking,
+    uncompressedResources,
+    images,
+  };
+}
+
+function scoreMetric(value: number | null, good: number, poor: number): number | null {
+  if (value === null) return null;
+  if (value <= good) return 100;
+  if (value <= poor) return 100 - ((value - good) / (poor - good)) * 50;
+  return Math.max(0, 50 - ((value - poor) / poor) * 50);
+}
+
+// Weights loosely follow Lighthouse: LCP and TBT dominate, then CLS, then page weight.
+// Page weight alone says too little to score a page, so it is null when no vitals were captured.
+export function scorePagePerformance(metrics: PerformanceMetrics): number | null {
+  if (metrics.lcpMs === null && metrics.tbtMs === null && metrics.cls === null) return null;
+  const parts: Array<[number | null, number]> = [
+    [scoreMetric(metrics.lcpMs, 2500, 4000), 0.3],
+    [scoreMetric(metrics.tbtMs, 200, 600), 0.3],
+    [scoreMetric(metrics.cls, 0.1, 0.25), 0.25],
+    [scoreMetric(metrics.transferBytes, 1600 * 1024, 4000 * 1024), 0.15],
+  ];
+  const measured = parts.filter((p): p is [number, number] => p[0] !== null);
+  if (measured.length === 0) return null;
+  const totalWeight = measured.reduce((s, [, w]) => s + w, 0);
+  return Math.round(measured.reduce((s, [score, w]) => s + score * w, 0) / totalWeight);
+}
@@ -0,0 +1,28 @@
+import type { Project } from "@shared/schema";
+import { storage } from "../storage";
+import { extractDomain } from "./urls";
+
+function rootUrlFor(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+/** Returns the user's project for the URL's domain, creating one named after the domain if needed. */
+export async function findOrCreateProjectForUrl(userId: string, url: string): Promise<Project> {
+  const domain = extractDomain(url);
+  const existing = await storage.findProjectByDomain(userId, domain);
+  if (existing) return existing;
+  return storage.createProject({ userId, name: domain, rootUrl: rootUrlFor(url), domain, config: {}, ruleProfileId: null });
+}
+
+/** Links audits created before projects existed to a project for their domain. */
+export async function assignUnassignedAudits(userId: string): Promise<void> {
+  const audits = await storage.getUnassignedAudits(userId);
+  for (const audit of audits) {
+    const project = await findOrCreateProjectForUrl(userId, audit.url);
+    await storage.updateAudit(audit.id, { projectId: project.id });
+  }
+}
@@ -1,52 +1,293 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
 import { storage } from "../storage";
-import type { SeoAudit } from "@shared/schema";
+import { refundAuditCredit } from "./audits";
+import {
+  auditConfigSchema,
+  getPlanLimits,
+  type AppliedRuleProfile,
+  type AuditConfig,
+  type AuditEvent,
+  type AuditJobRecord,
+  type JobProgress,
+} from "@shared/schema";
 
-export type JobStatus = "pending" | "processing" | "completed" | "failed";
+export type { JobProgress, JobStatus } from "@shared/schema";
 
 export interface AuditJob {
   auditId: number;
   userId: string;
   url: string;
   domain: string;
+  config: AuditConfig;
+  ruleProfile: AppliedRuleProfile | null;
+  scheduleId: number | null;
 }
 
-export interface JobProgress {
-  stage: "queued" | "crawling" | "analyzing" | "fixing" | "saving" | "done" | "error";
-  message: string;
-  percent: number;
-}
+/** A worker must heartbeat at least this often or its job is treated as abandoned. */
+export const LEASE_TIMEOUT_MS = 2 * 60_000;
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+/** A job abandoned this many times is failed and refunded instead of being retried again. */
+const MAX_ATTEMPTS = 3;
+
+/** Identifies this process in `audit_jobs.worker_id`. */
+export const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
 
-const activeJobs = new Map<number, JobProgress>();
-const jobQueue: AuditJob[] = [];
-let processing = false;
 let onJobReady: (() => void) | null = null;
+let onCancelRequested: ((auditId: number) => void) | null = null;
 
-export function getJobProgress(auditId: number): JobProgress | null {
-  return activeJobs.get(auditId) ?? null;
+/** Thrown inside a running job once the user cancels it. */
+export class AuditCancelledError extends Error {
+  constructor() {
+    super("Audit cancelled");
+    this.name = "AuditCancelledError";
+  }
 }
 
-export function updateJobProgress(auditId: number, progress: JobProgress): void {
-  activeJobs.set(auditId, progress);
-  if (progress.stage === "done" || progress.stage === "error") {
-    setTimeout(() => activeJobs.delete(auditId), 60_000);
+/** Thrown inside a running job once stale-job recovery has handed it to another worker. */
+export class LeaseLostError extends Error {
+  constructor(auditId: number) {
+    super(`Lost the lease on audit #${auditId}`);
+    this.name = "LeaseLostError";
   }
 }
 
+export type WorkerMode = "inline" | "external";
+
+/**
+ * "inline" runs the worker and scheduler inside the web process. "external" only enqueues and
+ * leaves jobs to `server/worker.ts`; it is the default on Vercel, where functions can't crawl in the background.
+ */
+export function getWorkerMode(): WorkerMode {
+  const mode = process.env.WORKER_MODE;
+  if (mode === "inline" || mode === "external") return mode;
+  return process.env.VERCEL ? "external" : "inline";
+}
+
+export async function getJobProgress(auditId: number): Promise<JobProgress | null> {
+  const job = await storage.getAuditJob(auditId);
+  return job?.progress ?? null;
+}
+
+export async function emitAuditEvent(auditId: number, event: AuditEvent): Promise<void> {
+  await storage.createAuditEvent(auditId, event);
+}
+
+/**
+ * Saves the current progress (plus any other job fields) of a job this process holds and streams it
+ * as a progress event after `events`. Throws LeaseLostError once another worker has taken the job over.
+ */
+export async function updateJobProgress(
+  auditId: number,
+  progress: JobProgress,
+  data: Partial<AuditJobRecord> = {},
+  events: AuditEvent[] = [],
+): Promise<void> {
+  const updated = await storage.updateAuditJob(auditId, { ...data, progress }, workerId, [
+    ...events,
+    { type: "progress", ...progress },
+  ]);
+  if (!updated) throw new LeaseLostError(auditId);
+}
+
+/** 1 is next in line. Null once the job has been claimed or finished. */
+export async function getQueuePosition(auditId: number): Promise<number | null> {
+  return storage.getQueuePosition(auditId);
+}
+
+const queuedProgress: JobProgress = { stage: "queued", message: "Waiting in queue", percent: 0 };
+
+/** Paid plans jump ahead in the queue and may run more audits at once. */
+async function planPlacement(userId: string): Promise<{ priority: number; maxRunning: number }> {
+  const profile = await storage.getProfile(userId);
+  const limits = getPlanLimits(profile?.plan);
+  return { priority: limits.queuePriority, maxRunning: limits.maxRunningJobs };
+}
+
+/**
+ * Queues a charged audit. If the job can't be created the audit is failed and its credit refunded
+ * before the error is rethrown, since without a job it would never run.
+ */
 export async function enqueueAudit(job: AuditJob): Promise<void> {
-  await storage.updateAudit(job.auditId, { status: "pending" });
-  updateJobProgress(job.auditId, { stage: "queued", message: "Waiting in queue", percent: 0 });
-  jobQueue.push(job);
+  try {
+    await storage.updateAudit(job.auditId, { status: "pending" });
+    await storage.createAuditJob({
+      auditId: job.auditId,
+      userId: job.userId,
+      status: "pending",
+      progress: queuedProgress,
+      ...(await planPlacement(job.userId)),
+    });
+  } catch (err) {
+    try {
+      await storage.updateAudit(job.auditId, { status: "failed" });
+      await refundAuditCredit(job.userId, job.auditId, `Refund for audit that could not be queued: ${job.url}`);
+    } catch (refundErr: any) {
+      console.error(`[Queue] Refund failed for audit #${job.auditId}:`, refundErr.message);
+    }
+    throw err;
+  }
+  await emitAuditEvent(job.auditId, { type: "progress", ...queuedProgress });
   if (onJobReady) onJobReady();
 }
 
-export function dequeueJob(): AuditJob | undefined {
-  return jobQueue.shift();
+/**
+ * Claims the next pending job for this process: highest plan priority first, then oldest, skipping
+ * users already running as many jobs as their plan allows. The audit row supplies everything the worker needs.
+ */
+export async function claimJob(): Promise<AuditJob | undefined> {
+  const record = await storage.claimAuditJob(workerId);
+  if (!record) return undefined;
+
+  const audit = await storage.getAudit(record.auditId);
+  if (!audit) {
+    await storage.updateAuditJob(record.auditId, { status: "failed", lastError: "Audit not found", finishedAt: new Date() }, workerId);
+    return undefined;
+  }
+  return {
+    auditId: audit.id,
+    userId: audit.userId,
+    url: audit.url,
+    domain: audit.domain ?? "",
+    config: audit.config ?? auditConfigSchema.parse({}),
+    ruleProfile: audit.ruleProfile ?? null,
+    scheduleId: audit.scheduleId,
+  };
 }
 
-export function queueSize(): number {
-  return jobQueue.length;
+/**
+ * `held` is false when this process no longer holds the job, e.g. after it was recovered as stale.
+ * `cancelRequested` is how a worker in another process learns the user cancelled the job.
+ */
+export async function heartbeatJob(auditId: number): Promise<{ held: boolean; cancelRequested: boolean }> {
+  const job = await storage.heartbeatAuditJob(auditId, workerId);
+  return { held: !!job, cancelRequested: !!job?.cancelRequestedAt };
 }
 
-export function setOnJobReady(fn: () => void): void {
+export async function completeJob(auditId: number): Promise<void> {
+  await updateJobProgress(
+    auditId,
+    { stage: "done", message: "Audit complete", percent: 100 },
+    { status: "completed", finishedAt: new Date() },
+  );
+}
+
+export async function failJob(auditId: number, message: string): Promise<void> {
+  await updateJobProgress(
+    auditId,
+    { stage: "error", message, percent: 0 },
+    { status: "failed", lastError: message, finishedAt: new Date() },
+    [{ type: "error", message }],
+  );
+}
+
+const cancelledProgress: JobProgress = { stage: "cancelled", message: "Audit cancelled", percent: 0 };
+
+/** Marks the audit of an already cancelled job cancelled and refunds its credit. */
+async function settleCancelledAudit(auditId: number, userId: string): Promise<void> {
+  const audit = await storage.updateAudit(auditId, { status: "cancelled" });
+  await refundAuditCredit(userId, auditId, `Refund for cancelled audit: ${audit?.url ?? `#${auditId}`}`);
+}
+
+/** Marks a job this process holds and its audit cancelled and refunds the audit's credit. */
+export async function finishCancelledJob(auditId: number, userId: string): Promise<void> {
+  await updateJobProgress(auditId, cancelledProgress, { status: "cancelled", finishedAt: new Date() });
+  await settleCancelledAudit(auditId, userId);
+}
+
+/**
+ * Cancels a queued job straight away. A running job is flagged instead and stopped by its
+ * worker, which sees the flag on its next heartbeat (or immediately when it runs in this process).
+ */
+export async function cancelJob(auditId: number, userId: string): Promise<"cancelled" | "cancelling" | null> {
+  if (await storage.cancelPendingAuditJob(auditId)) {
+    await emitAuditEvent(auditId, { type: "progress", ...cancelledProgress });
+    await settleCancelledAudit(auditId, userId);
+    return "cancelled";
+  }
+  if (await storage.requestAuditJobCancel(auditId)) {
+    if (onCancelRequested) onCancelRequested(auditId);
+    return "cancelling";
+  }
+  return null;
+}
+
+/**
+ * Puts jobs whose worker stopped heartbeating back in the queue. After MAX_ATTEMPTS the
+ * audit is failed and its credit refunded so it never sits in "processing" forever.
+ */
+export async function recoverStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - LEASE_TIMEOUT_MS);
+  const stale = await storage.getStaleAuditJobs(staleBefore);
+
+  for (const job of stale) {
+    if (job.cancelRequestedAt) {
+      const recovered = await storage.recoverAuditJob(job.auditId, staleBefore, {
+        status: "cancelled",
+        progress: cancelledProgress,
+        finishedAt: new Date(),
+      });
+      if (!recovered) continue;
+      await emitAuditEvent(job.auditId, { type: "progress", ...cancelledProgress });
+      await settleCancelledAudit(job.auditId, job.userId);
+      continue;
+    }
+
+    if (job.attempts < MAX_ATTEMPTS) {
+      const progress: JobProgress = { stage: "queued", message: "Worker stopped responding, waiting to retry", percent: 0 };
+      const recovered = await storage.recoverAuditJob(job.auditId, staleBefore, {
+        status: "pending",
+        workerId: null,
+        heartbeatAt: null,
+        lastError: `Worker ${job.workerId} stopped responding`,
+        progress,
+      });
+      if (!recovered) continue;
+      await storage.updateAudit(job.auditId, { status: "pending" });
+      await emitAuditEvent(job.auditId, { type: "progress", ...progress });
+      console.log(`[Queue] Requeued stale audit #${job.auditId} (attempt ${job.attempts} of ${MAX_ATTEMPTS})`);
+      continue;
+    }
+
+    const message = `Audit was abandoned ${job.attempts} times and will not be retried`;
+    const recovered = await storage.recoverAuditJob(job.auditId, staleBefore, {
+      status: "failed",
+      lastError: message,
+      progress: { stage: "error", message, percent: 0 },
+      finishedAt: new Date(),
+    });
+    if (!recovered) continue;
+    await emitAuditEvent(job.auditId, { type: "error", message });
+    await emitAuditEvent(job.auditId, { type: "progress", ...recovered.progress });
+    const audit = await storage.updateAudit(job.auditId, { status: "failed" });
+    await refundAuditCredit(job.userId, job.auditId, `Refund for failed audit: ${audit?.url ?? `#${job.auditId}`}`);
+    console.log(`[Queue] Failed stale audit #${job.auditId} after ${job.attempts} attempts`);
+  }
+
+  if (stale.length > 0 && onJobReady) onJobReady();
+}
+
+/** Queues audits left pending or processing by the old in-memory queue, which lost them on restart. */
+export async function requeueAuditsWithoutJob(): Promise<void> {
+  const audits = await storage.getAuditsWithoutJob(["pending", "processing"]);
+  for (const audit of audits) {
+    await storage.updateAudit(audit.id, { status: "pending" });
+    await storage.createAuditJob({
+      auditId: audit.id,
+      userId: audit.userId,
+      status: "pending",
+      progress: queuedProgress,
+      ...(await planPlacement(audit.userId)),
+    });
+    await emitAuditEvent(audit.id, { type: "progress", ...queuedProgress });
+    console.log(`[Queue] Requeued audit #${audit.id}, which had no job`);
+  }
+}
+
+export function setOnJobReady(fn: (() => void) | null): void {
   onJobReady = fn;
 }
+
+export function setOnCancelRequested(fn: ((auditId: number) => void) | null): void {
+  onCancelRequested = fn;
+}
@@ -0,0 +1,99 @@
+import type { SeoRule } from "./types";
+
+export const httpRules: SeoRule[] = [
+  {
+    id: "http_server_error",
+    title: "Server error (5xx)",
+    category: "technical",
+    severity: "critical",
+    penalty: 20,
+    docs: "Pages that respond with a 5xx status cannot be indexed. Persistent server errors cause search engines to drop the page and crawl the site less often.",
+    scope: "page",
+    includeErrorPages: true,
+    check(page) {
+      if (page.httpStatus === null || page.httpStatus < 500) return [];
+      return [{
+        explanation: `The page "${page.url}" returned HTTP ${page.httpStatus}. Server errors stop search engines from indexing the page and, if persistent, cause it to be dropped from the index.`,
+        recommendedFix: `Check the server logs for "${page.finalUrl}" and fix the underlying error so the page responds with 200. If the outage is planned, return 503 with a Retry-After header.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "http_client_error",
+    title: "Linked page not found (4xx)",
+    category: "technical",
+    severity: "critical",
+    penalty: 15,
+    docs: "Internal links that lead to 4xx responses waste crawl budget, strand link equity and give visitors a dead end.",
+    scope: "page",
+    includeErrorPages: true,
+    check(page) {
+      if (page.httpStatus === null || page.httpStatus < 400 || page.httpStatus >= 500) return [];
+      return [{
+        explanation: `The page "${page.url}" returned HTTP ${page.httpStatus} but is still linked from the site. Links to missing pages waste crawl budget and give visitors a dead end.`,
+        recommendedFix: `Restore the page, 301-redirect it to the most relevant live URL, or update the internal links that point to it.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "redirect_chain",
+    title: "Redirect chain",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Every extra redirect hop adds latency for users and crawlers. Long chains may not be followed to the end and can leak link equity.",
+    thresholds: { maxRedirects: { label: "Redirects allowed before reporting a chain", default: 1 } },
+    scope: "page",
+    includeErrorPages: true,
+    check(page, { thresholds }) {
+      const chain = page.redirectChain;
+      if (chain.length <= thresholds.maxRedirects) return [];
+      const path = [...chain.map((h) => `${h.url} (${h.status})`), page.finalUrl].join(" -> ");
+      return [{
+        explanation: `The URL "${page.url}" goes through ${chain.length} redirects before resolving: ${path}. Each hop slows down users and crawlers and can leak link equity.`,
+        recommendedFix: `Point the original URL, and every internal link to it, directly at the final destination "${page.finalUrl}" with a single 301 redirect.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "temporary_redirect",
+    title: "Temporary redirect",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "302 and 307 redirects tell search engines the move is temporary, so the original URL stays indexed and ranking signals may not transfer. Redirects to login pages are ignored.",
+    scope: "page",
+    includeErrorPages: true,
+    check(page) {
+      const temporary = page.redirectChain.filter((h) => (h.status === 302 || h.status === 307) && !/\/(login|signin|sign-in|auth)\b/i.test(h.location ?? ""));
+      if (temporary.length === 0) return [];
+      return [{
+        explanation: `The URL "${page.url}" uses a temporary redirect (${temporary.map((h) => `${h.status} from ${h.url}`).join(", ")}). Search engines keep the original URL indexed for temporary redirects and may not pass ranking signals to the target.`,
+        recommendedFix: `If the move is permanent, change the redirect to a 301 (or 308) so the destination "${page.finalUrl}" is indexed in its place.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "redirect_loop",
+    title: "Redirect loop",
+    category: "technical",
+    severity: "critical",
+    penalty: 15,
+    docs: "A URL that redirects back to itself never resolves, so neither users nor search engines can reach the content.",
+    scope: "site",
+    check(crawl) {
+      return crawl.redirectLoops.map((loop) => {
+        const path = loop.chain.map((h) => `${h.url} (${h.status})`).join(" -> ");
+        return {
+          explanation: `The URL "${loop.url}" redirects in a loop and never resolves${path ? `: ${path}` : ""}. Neither users nor search engines can reach the content.`,
+          recommendedFix: `Review the redirect rules for this URL (server config, CDN, CMS and HTTPS/www canonicalization) so that the chain ends at a page that returns 200.`,
+          pageUrl: loop.url,
+        };
+      });
+    },
+  },
+];
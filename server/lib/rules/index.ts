@@ -0,0 +1,59 @@
+import { httpRules } from "./http";
+import { onPageRules } from "./onPage";
+import { linkRules } from "./links";
+import { indexingRules } from "./indexing";
+import { performanceRules } from "./performance";
+import { mobileRules } from "./mobile";
+import type { RuleSettings } from "@shared/schema";
+import type { RuleInfo, SeoRule } from "./types";
+
+export type { IssueSeverity, PageRule, RuleCategory, RuleContext, RuleFinding, RuleInfo, RuleThreshold, SeoRule, SiteRule } from "./types";
+
+const registry = new Map<string, SeoRule>();
+
+export function registerRule(rule: SeoRule): void {
+  if (registry.has(rule.id)) {
+    throw new Error(`Duplicate SEO rule id: ${rule.id}`);
+  }
+  registry.set(rule.id, rule);
+}
+
+for (const rule of [...httpRules, ...onPageRules, ...linkRules, ...indexingRules, ...performanceRules, ...mobileRules]) {
+  registerRule(rule);
+}
+
+export function getRule(id: string): SeoRule | undefined {
+  return registry.get(id);
+}
+
+export function getRules(): SeoRule[] {
+  return Array.from(registry.values());
+}
+
+export function getRuleInfo(): RuleInfo[] {
+  return getRules().map(({ id, title, category, severity, penalty, docs, thresholds, scope }) => ({
+    id,
+    title,
+    category,
+    severity,
+    penalty,
+    docs,
+    thresholds,
+    scope,
+  }));
+}
+
+/** Drops settings for unknown rules and thresholds, e.g. left over from a rule that was removed. */
+export function normalizeRuleSettings(settings: RuleSettings): RuleSettings {
+  const normalized: RuleSettings = {};
+  for (const [id, setting] of Object.entries(settings)) {
+    const rule = registry.get(id);
+    if (!rule) continue;
+    const known = rule.thresholds ?? {};
+    normalized[id] = {
+      ...setting,
+      thresholds: Object.fromEntries(Object.entries(setting.thresholds).filter(([key]) => key in known)),
+    };
+  }
+  return normalized;
+}
@@ -0,0 +1,145 @@
+import type { CrawledPage } from "../crawler";
+import { normalizeUrl } from "../urls";
+import type { RuleFinding, SeoRule } from "./types";
+
+export const indexingRules: SeoRule[] = [
+  {
+    id: "noindex_important_page",
+    title: "Important page is noindex",
+    category: "technical",
+    severity: "critical",
+    penalty: 25,
+    docs: "Flags noindex pages that look important: the start page, pages in the sitemap, pages with 3+ inbound links or above-average internal PageRank. Usually left over from staging.",
+    scope: "site",
+    check(crawl) {
+      const { metrics, startUrl } = crawl.linkGraph;
+      const sitemapUrls = new Set(
+        crawl.sitemap ? crawl.pages.map((p) => p.url).filter((u) => !crawl.sitemap!.missingFromSitemap.includes(u)) : []
+      );
+      const averageRank = crawl.pages.length > 0 ? 1 / crawl.pages.length : 0;
+      const findings: RuleFinding[] = [];
+
+      for (const page of crawl.pages) {
+        if (!page.robots.noindex || (page.httpStatus !== null && page.httpStatus >= 400)) continue;
+        const m = metrics[page.url];
+        const reasons: string[] = [];
+        if (page.url === startUrl) reasons.push("it is the start page");
+        if (crawl.sitemap && crawl.sitemap.totalUrls > 0 && sitemapUrls.has(page.url)) reasons.push("it is listed in the sitemap");
+        if (m && m.inboundLinks >= 3) reasons.push(`${m.inboundLinks} pages link to it`);
+        if (m && averageRank > 0 && m.pageRank >= averageRank * 1.5) reasons.push("it has above-average internal PageRank");
+        if (reasons.length === 0) continue;
+
+        const source = [page.robots.meta && `meta robots "${page.robots.meta}"`, page.robots.xRobotsTag && `X-Robots-Tag "${page.robots.xRobotsTag}"`]
+          .filter(Boolean)
+          .join(" and ");
+        findings.push({
+          explanation: `The page "${page.url}" is excluded from search results by ${source}, yet it looks important: ${reasons.join(", ")}. This is often left over from a staging environment.`,
+          recommendedFix: `If the page should rank, remove the noindex directive from the robots meta tag and the X-Robots-Tag header. If it is meant to be hidden, remove it from the sitemap and reduce internal links to it.`,
+          pageUrl: page.url,
+          occurrences: page.elements.robotsMeta,
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: "noindex_canonical_target",
+    title: "Canonical points at a noindex page",
+    category: "technical",
+    severity: "critical",
+    penalty: 15,
+    docs: "A canonical tag that points at a noindex page sends conflicting signals and can get both pages dropped from the index.",
+    scope: "site",
+    check(crawl) {
+      const pagesByUrl = new Map<string, CrawledPage>();
+      for (const page of crawl.pages) {
+        pagesByUrl.set(page.url, page);
+        if (page.finalUrl) pagesByUrl.set(page.finalUrl, page);
+      }
+      const findings: RuleFinding[] = [];
+      for (const page of crawl.pages) {
+        if (!page.canonical) continue;
+        const canonicalUrl = normalizeUrl(page.canonical, page.url);
+        if (!canonicalUrl) continue;
+        const target = pagesByUrl.get(canonicalUrl);
+        if (!target || !target.robots.noindex) continue;
+        findings.push({
+          explanation: `The page "${page.url}" declares "${canonicalUrl}" as its canonical URL, but that page is marked noindex. The conflicting signals can cause search engines to drop both pages from the index.`,
+          recommendedFix: `Either remove the noindex directive from "${canonicalUrl}" or point the canonical tag of "${page.url}" at an indexable page (often the page itself).`,
+          pageUrl: page.url,
+          occurrences: page.elements.canonical ? [page.elements.canonical] : undefined,
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: "robots_blocked_linked",
+    title: "Linked URL blocked by robots.txt",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "URLs disallowed in robots.txt cannot be crawled, but when they are linked internally search engines may still index the bare URL.",
+    scope: "site",
+    check(crawl) {
+      return crawl.robotsBlocked.map((blocked) => ({
+        explanation: `The URL "${blocked.url}" is disallowed in robots.txt but is linked from ${blocked.linkedFrom.length} page(s): ${blocked.linkedFrom.slice(0, 5).join(", ")}. Search engines cannot crawl it, but may still index the bare URL without a title or description.`,
+        recommendedFix: `If the page should be indexed, remove the Disallow rule that matches it. If it should stay hidden, remove or nofollow the internal links and use a noindex directive instead of a robots.txt block.`,
+        pageUrl: blocked.url,
+      }));
+    },
+  },
+  {
+    id: "missing_sitemap",
+    title: "No XML sitemap",
+    category: "technical",
+    severity: "warning",
+    penalty: 10,
+    docs: "Sitemaps help search engines discover pages that are deep in the site or poorly linked. Checked via robots.txt Sitemap directives and /sitemap.xml.",
+    scope: "site",
+    check(crawl) {
+      const coverage = crawl.sitemap;
+      if (!coverage || crawl.pages.length === 0 || coverage.sitemaps.length > 0) return [];
+      return [{
+        explanation: `No XML sitemap was found for ${crawl.domain} (checked robots.txt Sitemap directives and /sitemap.xml). Sitemaps help search engines discover pages that are deep in the site or poorly linked.`,
+        recommendedFix: `Publish an XML sitemap listing every indexable URL, reference it with a "Sitemap:" line in robots.txt, and submit it in Google Search Console.`,
+      }];
+    },
+  },
+  {
+    id: "sitemap_unlinked_urls",
+    title: "Sitemap URLs not linked internally",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Pages that are only reachable through the sitemap receive little internal link equity.",
+    scope: "site",
+    check(crawl) {
+      const coverage = crawl.sitemap;
+      if (!coverage || crawl.pages.length === 0 || coverage.sitemaps.length === 0 || coverage.unlinkedUrls.length === 0) return [];
+      const sample = coverage.unlinkedUrls.slice(0, 10);
+      return [{
+        explanation: `${coverage.unlinkedUrls.length} crawled URL(s) listed in the sitemap are not linked from any crawled page: ${sample.join(", ")}${coverage.unlinkedUrls.length > sample.length ? ", ..." : ""}. Pages that are only reachable through the sitemap receive little internal link equity.`,
+        recommendedFix: `Link to these pages from relevant navigation, category or content pages, or remove them from the sitemap if they are no longer meant to be indexed.`,
+      }];
+    },
+  },
+  {
+    id: "missing_from_sitemap",
+    title: "Pages missing from sitemap",
+    category: "technical",
+    severity: "info",
+    penalty: 5,
+    docs: "Crawled pages that are not in the sitemap may be discovered and recrawled more slowly.",
+    scope: "site",
+    check(crawl) {
+      const coverage = crawl.sitemap;
+      if (!coverage || crawl.pages.length === 0 || coverage.sitemaps.length === 0 || coverage.missingFromSitemap.length === 0) return [];
+      const sample = coverage.missingFromSitemap.slice(0, 10);
+      return [{
+        explanation: `${coverage.missingFromSitemap.length} crawled page(s) are not listed in the sitemap: ${sample.join(", ")}${coverage.missingFromSitemap.length > sample.length ? ", ..." : ""}. Search engines may discover and recrawl them more slowly.`,
+        recommendedFix: `Add every indexable page to the XML sitemap, ideally by generating the sitemap automatically from your CMS or router.`,
+      }];
+    },
+  },
+];
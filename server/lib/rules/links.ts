@@ -0,0 +1,186 @@
+import type { IssueOccurrence } from "@shared/schema";
+import type { CrawlResult, PageLink } from "../crawler";
+import type { RuleFinding, SeoRule } from "./types";
+
+const MAX_OCCURRENCES = 20;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function linkOccurrence(link: PageLink): IssueOccurrence {
+  const rel = link.nofollow ? ' rel="nofollow"' : "";
+  const snippet = `<a href="${escapeHtml(link.href)}"${rel}>${escapeHtml(link.text)}</a>`;
+  return {
+    selector: link.selector,
+    snippet: snippet.length > 200 ? snippet.slice(0, 197) + "..." : snippet,
+    attribute: { name: "href", value: link.href },
+  };
+}
+
+function findBrokenLinks(
+  crawl: CrawlResult,
+  internal: boolean,
+  describe: (pageUrl: string, broken: string[]) => Omit<RuleFinding, "pageUrl" | "occurrences">
+): RuleFinding[] {
+  if (!crawl.linkCheck) return [];
+
+  const brokenBySource = new Map<string, string[]>();
+  const brokenTargets = new Set<string>();
+  for (const link of crawl.linkCheck.links) {
+    if (!link.broken || link.internal !== internal) continue;
+    brokenTargets.add(link.url);
+    const label = `${link.url} (${link.status ?? link.error ?? "no response"})`;
+    for (const source of link.sources) {
+      const list = brokenBySource.get(source.pageUrl) ?? [];
+      if (!list.includes(label)) list.push(label);
+      brokenBySource.set(source.pageUrl, list);
+    }
+  }
+
+  const pagesByUrl = new Map(crawl.pages.map((p) => [p.url, p]));
+  return Array.from(brokenBySource.entries()).map(([pageUrl, broken]) => ({
+    ...describe(pageUrl, broken),
+    pageUrl,
+    occurrences: (pagesByUrl.get(pageUrl)?.links ?? [])
+      .filter((l) => l.internal === internal && brokenTargets.has(l.href))
+      .slice(0, MAX_OCCURRENCES)
+      .map(linkOccurrence),
+  }));
+}
+
+export const linkRules: SeoRule[] = [
+  {
+    id: "broken_internal_links",
+    title: "Broken internal links",
+    category: "technical",
+    severity: "critical",
+    penalty: 10,
+    docs: "Internal links that return 4xx/5xx or no response waste crawl budget, strand link equity and frustrate visitors.",
+    scope: "site",
+    check(crawl) {
+      return findBrokenLinks(crawl, true, (pageUrl, broken) => ({
+        explanation: `The page "${pageUrl}" links to ${broken.length} internal URL(s) that do not resolve: ${broken.slice(0, 10).join(", ")}. Broken internal links waste crawl budget, strand link equity and frustrate visitors.`,
+        recommendedFix: `Update each link to point at the correct live page, or restore or 301-redirect the missing URLs.`,
+      }));
+    },
+  },
+  {
+    id: "broken_external_links",
+    title: "Broken external links",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Outbound links to dead pages signal a poorly maintained page. Some sites block automated requests, so confirm before removing.",
+    scope: "site",
+    check(crawl) {
+      return findBrokenLinks(crawl, false, (pageUrl, broken) => ({
+        explanation: `The page "${pageUrl}" links to ${broken.length} external URL(s) that appear to be dead: ${broken.slice(0, 10).join(", ")}. Dead outbound links signal a poorly maintained page.`,
+        recommendedFix: `Replace these links with current sources or remove them. Some sites block automated requests, so confirm each one in a browser before removing it.`,
+      }));
+    },
+  },
+  {
+    id: "orphan_page",
+    title: "Orphan page",
+    category: "technical",
+    severity: "warning",
+    penalty: 10,
+    docs: "A page that no other crawled page links to is hard for search engines to discover and receives no internal link equity.",
+    scope: "site",
+    check(crawl) {
+      if (crawl.pages.length < 2) return [];
+      const { metrics, startUrl } = crawl.linkGraph;
+      return crawl.pages
+        .filter((page) => {
+          const m = metrics[page.url];
+          return m && page.url !== startUrl && m.inboundLinks === 0;
+        })
+        .map((page) => ({
+          explanation: `The page "${page.url}" is not linked to by any other crawled page. Orphan pages are difficult for search engines to discover and receive no internal link equity.`,
+          recommendedFix: `Add internal links from relevant pages to this page. Include it in navigation menus, category pages, or contextual link sections.`,
+          pageUrl: page.url,
+        }));
+    },
+  },
+  {
+    id: "deep_page",
+    title: "Deep page",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Pages more than 3 clicks from the start page are crawled less often and tend to rank worse.",
+    thresholds: { maxDepth: { label: "Maximum click depth", default: 3 } },
+    scope: "site",
+    check(crawl, { thresholds }) {
+      const findings: RuleFinding[] = [];
+      for (const page of crawl.pages) {
+        const depth = crawl.linkGraph.metrics[page.url]?.clickDepth;
+        if (depth == null || depth <= thresholds.maxDepth) continue;
+        findings.push({
+          explanation: `The page "${page.url}" is ${depth} clicks away from the start page. Pages buried more than ${thresholds.maxDepth} clicks deep are crawled less often and tend to rank worse.`,
+          recommendedFix: `Link to this page from higher-level pages such as the homepage, main navigation, hub or category pages, so that it is reachable within ${thresholds.maxDepth} clicks.`,
+          pageUrl: page.url,
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: "low_link_equity",
+    title: "Low internal link equity",
+    category: "technical",
+    severity: "info",
+    penalty: 5,
+    docs: "Pages with a single inbound link and an internal PageRank below half the site average receive very little link equity.",
+    scope: "site",
+    check(crawl) {
+      const { metrics, startUrl } = crawl.linkGraph;
+      const pageCount = crawl.pages.length;
+      if (pageCount < 3) return [];
+      const averageRank = 1 / pageCount;
+      const findings: RuleFinding[] = [];
+      for (const page of crawl.pages) {
+        const m = metrics[page.url];
+        if (!m || page.url === startUrl || m.inboundLinks === 0) continue;
+        if (m.pageRank < averageRank * 0.5 && m.inboundLinks <= 1) {
+          findings.push({
+            explanation: `The page "${page.url}" is linked from only ${m.inboundLinks} page and has an internal PageRank of ${(m.pageRank / averageRank).toFixed(2)}x the site average. It receives very little internal link equity.`,
+            recommendedFix: `If this page matters for search, link to it from strong pages (homepage, popular articles, category hubs) using descriptive anchor text.`,
+            pageUrl: page.url,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "internal_nofollow",
+    title: "Nofollowed internal links",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "rel=\"nofollow\" on internal links throws away link equity instead of passing it to your own pages.",
+    scope: "site",
+    check(crawl) {
+      const nofollowBySource = new Map<string, Set<string>>();
+      for (const edge of crawl.linkGraph.edges) {
+        if (!edge.nofollow) continue;
+        const targets = nofollowBySource.get(edge.source) ?? new Set<string>();
+        targets.add(edge.target);
+        nofollowBySource.set(edge.source, targets);
+      }
+      const pagesByUrl = new Map(crawl.pages.map((p) => [p.url, p]));
+      return Array.from(nofollowBySource.entries()).map(([source, targets]) => {
+        const list = Array.from(targets);
+        const anchors = (pagesByUrl.get(source)?.links ?? []).filter((l) => l.internal && l.nofollow);
+        return {
+          explanation: `The page "${source}" uses rel="nofollow" on ${list.length} internal link(s): ${list.slice(0, 10).join(", ")}. Nofollowed internal links throw away link equity instead of passing it to your own pages.`,
+          recommendedFix: `Remove rel="nofollow" from internal links. To keep a page out of the index, use a noindex directive on that page instead.`,
+          pageUrl: source,
+          occurrences: anchors.slice(0, MAX_OCCURRENCES).map(linkOccurrence),
+        };
+      });
+    },
+  },
+];
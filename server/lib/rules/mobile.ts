@@ -0,0 +1,106 @@
+import type { SeoRule } from "./types";
+
+export const mobileRules: SeoRule[] = [
+  {
+    id: "missing_viewport_meta",
+    title: "Missing responsive viewport",
+    category: "technical",
+    severity: "critical",
+    penalty: 15,
+    docs: "Without <meta name=\"viewport\" content=\"width=device-width\">, mobile browsers render the page at desktop width and shrink it. Google indexes the mobile version of pages.",
+    scope: "page",
+    check(page) {
+      const mobile = page.mobile;
+      if (!mobile || mobile.hasDeviceWidthViewport) return [];
+      return [{
+        explanation: mobile.viewportMeta
+          ? `The page "${page.url}" has a viewport meta tag ("${mobile.viewportMeta}") that does not set width=device-width, so mobile browsers render it at desktop width and shrink it down.`
+          : `The page "${page.url}" has no <meta name="viewport"> tag, so mobile browsers render it at desktop width and shrink it down. Google uses mobile-first indexing.`,
+        recommendedFix: `Add <meta name="viewport" content="width=device-width, initial-scale=1"> to the <head>.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "viewport_zoom_disabled",
+    title: "Zoom disabled",
+    category: "technical",
+    severity: "info",
+    penalty: 0,
+    docs: "user-scalable=no or a low maximum-scale in the viewport meta tag stops visitors from pinch-zooming, which is an accessibility problem.",
+    scope: "page",
+    check(page) {
+      const mobile = page.mobile;
+      if (!mobile || !mobile.hasDeviceWidthViewport || !mobile.zoomDisabled) return [];
+      return [{
+        explanation: `The page "${page.url}" disables pinch-zoom in its viewport meta tag ("${mobile.viewportMeta}"), which hurts accessibility on mobile.`,
+        recommendedFix: `Remove user-scalable=no and any maximum-scale below 2 from the viewport meta tag.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "horizontal_overflow",
+    title: "Content wider than the screen",
+    category: "technical",
+    severity: "warning",
+    penalty: 10,
+    docs: "Pages that scroll sideways on a phone are hard to read and fail Google's mobile usability checks.",
+    scope: "page",
+    check(page) {
+      const mobile = page.mobile;
+      if (!mobile || !mobile.horizontalOverflow) return [];
+      const offenders = mobile.overflowingElements.map((e) => e.selector).join(", ");
+      return [{
+        explanation: `On a ${mobile.viewportWidth}px wide mobile screen, the page "${page.url}" is ${mobile.scrollWidth}px wide and scrolls horizontally${offenders ? ` (widest elements: ${offenders})` : ""}.`,
+        recommendedFix: `Make the listed elements responsive: use max-width: 100% on images and media, avoid fixed pixel widths, and let tables and code blocks scroll inside their own container.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "small_font_size",
+    title: "Text too small on mobile",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Reported when more than 10% of text renders below 12px on a phone. Small text forces visitors to zoom.",
+    thresholds: { maxSmallTextPercent: { label: "Share of small text allowed (%)", default: 10 } },
+    scope: "page",
+    check(page, { thresholds }) {
+      const mobile = page.mobile;
+      if (!mobile) return [];
+      const smallShare = mobile.textElements > 0 ? mobile.smallTextElements / mobile.textElements : 0;
+      if (smallShare * 100 <= thresholds.maxSmallTextPercent) return [];
+      const samples = mobile.smallText.slice(0, 3).map((t) => `"${t.text}" (${t.fontSize}px)`).join(", ");
+      return [{
+        severity: smallShare > 0.4 ? "warning" : "info",
+        explanation: `${Math.round(smallShare * 100)}% of the text on "${page.url}" renders below 12px on mobile, e.g. ${samples}. Small text forces users to zoom.`,
+        recommendedFix: `Use a base font size of at least 16px and keep secondary text at 12px or larger on mobile breakpoints.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "overlapping_tap_targets",
+    title: "Overlapping tap targets",
+    category: "technical",
+    severity: "warning",
+    penalty: 5,
+    docs: "Links and buttons smaller than 48x48px that overlap each other are easy to mis-tap on a touch screen.",
+    scope: "page",
+    check(page) {
+      const mobile = page.mobile;
+      if (!mobile || mobile.overlappingTapTargets.length === 0) return [];
+      const pairs = mobile.overlappingTapTargets
+        .slice(0, 3)
+        .map((o) => `${o.first}${o.firstText ? ` "${o.firstText}"` : ""} and ${o.second}${o.secondText ? ` "${o.secondText}"` : ""}`)
+        .join("; ");
+      return [{
+        explanation: `The page "${page.url}" has ${mobile.overlappingTapTargets.length} pair(s) of small links or buttons that overlap on mobile: ${pairs}.`,
+        recommendedFix: `Make tap targets at least 48x48px and leave space between neighbouring links and buttons.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+];
@@ -0,0 +1,208 @@
+import type { SeoRule } from "./types";
+
+export const onPageRules: SeoRule[] = [
+  {
+    id: "missing_title",
+    title: "Missing title tag",
+    category: "meta",
+    severity: "critical",
+    penalty: 25,
+    docs: "The <title> is the headline of the search result and one of the strongest on-page ranking signals.",
+    scope: "page",
+    check(page) {
+      if (page.title.trim().length > 0) return [];
+      return [{
+        explanation: `The page "${page.url}" has no <title> element. Search engines will generate a headline for the result themselves, usually a poor one.`,
+        recommendedFix: `Add a unique <title> of 50-60 characters that starts with the page's primary keyword.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "title_too_long",
+    title: "Title too long",
+    category: "meta",
+    severity: "warning",
+    penalty: 5,
+    docs: "Titles longer than about 60 characters are truncated in search results.",
+    thresholds: { maxLength: { label: "Maximum title length (characters)", default: 60 } },
+    scope: "page",
+    check(page, { thresholds }) {
+      if (page.title.length <= thresholds.maxLength) return [];
+      return [{
+        explanation: `The title of "${page.url}" is ${page.title.length} characters long ("${page.title}"). Search engines truncate titles after roughly 60 characters.`,
+        recommendedFix: `Shorten the title to ${thresholds.maxLength} characters or fewer and keep the most important words at the start.`,
+        pageUrl: page.url,
+        occurrences: page.elements.title ? [page.elements.title] : undefined,
+      }];
+    },
+  },
+  {
+    id: "missing_meta_description",
+    title: "Missing meta description",
+    category: "meta",
+    severity: "critical",
+    penalty: 25,
+    docs: "Search engines often show the meta description as the result snippet. A good one improves click-through rate.",
+    scope: "page",
+    check(page) {
+      if (page.metaDescription && page.metaDescription.trim().length > 0) return [];
+      return [{
+        explanation: `The page "${page.url}" has no meta description. Search engines display the meta description in search results, and its absence reduces click-through rates.`,
+        recommendedFix: `Add a <meta name="description" content="..."> tag with a concise summary (120-160 characters) of the page content.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "meta_description_too_long",
+    title: "Meta description too long",
+    category: "meta",
+    severity: "warning",
+    penalty: 5,
+    docs: "Meta descriptions longer than about 160 characters are cut off in search results.",
+    thresholds: { maxLength: { label: "Maximum description length (characters)", default: 160 } },
+    scope: "page",
+    check(page, { thresholds }) {
+      if (page.metaDescription.length <= thresholds.maxLength) return [];
+      return [{
+        explanation: `The meta description of "${page.url}" is ${page.metaDescription.length} characters long. Search engines cut descriptions off after roughly 160 characters.`,
+        recommendedFix: `Rewrite the description to 120-160 characters with the key message and call to action first.`,
+        pageUrl: page.url,
+        occurrences: page.elements.metaDescription ? [page.elements.metaDescription] : undefined,
+      }];
+    },
+  },
+  {
+    id: "missing_h1",
+    title: "Missing H1",
+    category: "content",
+    severity: "critical",
+    penalty: 20,
+    docs: "The H1 tells search engines and visitors what the page is about.",
+    scope: "page",
+    check(page) {
+      if (page.headings.h1.length > 0) return [];
+      return [{
+        explanation: `The page "${page.url}" has no H1 heading. The H1 tag is a strong ranking signal that tells search engines the primary topic of the page.`,
+        recommendedFix: `Add a single, descriptive <h1> tag that clearly communicates the main topic of the page. Place it near the top of the visible content.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "multiple_h1",
+    title: "Multiple H1 tags",
+    category: "content",
+    severity: "warning",
+    penalty: 10,
+    docs: "More than one H1 dilutes the primary topic signal of the page.",
+    scope: "page",
+    check(page) {
+      if (page.headings.h1.length <= 1) return [];
+      return [{
+        explanation: `The page "${page.url}" has ${page.headings.h1.length} H1 tags (${page.headings.h1.map((h) => `"${h}"`).join(", ")}). Multiple H1 tags dilute the primary topic signal for search engines.`,
+        recommendedFix: `Keep only one H1 per page. Convert the extra H1 tags to H2 or lower-level headings that support the main topic.`,
+        pageUrl: page.url,
+        occurrences: page.elements.h1,
+      }];
+    },
+  },
+  {
+    id: "thin_content",
+    title: "Thin content",
+    category: "content",
+    severity: "warning",
+    penalty: 15,
+    docs: "Pages with fewer than 300 words rarely cover a topic well enough to rank.",
+    thresholds: { minWords: { label: "Minimum word count", default: 300 } },
+    scope: "page",
+    check(page, { thresholds }) {
+      if (page.wordCount >= thresholds.minWords) return [];
+      return [{
+        explanation: `The page "${page.url}" has only ${page.wordCount} words. Pages with fewer than ${thresholds.minWords} words are considered thin content by search engines and are less likely to rank.`,
+        recommendedFix: `Expand the page content to at least ${thresholds.minWords} words with relevant, high-quality information. If the page serves a utility purpose (e.g., contact form), consider adding supporting text or FAQ sections.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "missing_alt_tags",
+    title: "Images missing alt text",
+    category: "content",
+    severity: "warning",
+    penalty: 10,
+    docs: "Alt text describes images to screen readers and to search engines, and is used for image search.",
+    scope: "page",
+    check(page) {
+      const missing = page.images.filter((img) => !img.alt || img.alt.trim().length === 0);
+      if (missing.length === 0) return [];
+      return [{
+        explanation: `The page "${page.url}" has ${missing.length} image(s) without alt text out of ${page.images.length} total. Missing alt text hurts accessibility and prevents search engines from understanding image content.`,
+        recommendedFix: `Add descriptive alt attributes to every <img> tag. Each alt text should concisely describe the image content (e.g., alt="Team meeting in conference room").`,
+        pageUrl: page.url,
+        occurrences: page.elements.imagesWithoutAlt,
+      }];
+    },
+  },
+  {
+    id: "no_schema",
+    title: "No structured data",
+    category: "technical",
+    severity: "info",
+    penalty: 10,
+    docs: "JSON-LD structured data helps search engines understand the page and can enable rich results.",
+    scope: "page",
+    check(page) {
+      if (page.schemaScripts.length > 0) return [];
+      return [{
+        explanation: `The page "${page.url}" has no structured data (JSON-LD schema markup). Schema markup helps search engines understand page content and can enable rich snippets in search results.`,
+        recommendedFix: `Add JSON-LD structured data relevant to the page type. Common schemas include Organization, WebPage, Article, Product, FAQ, and BreadcrumbList. Use Google's Structured Data Testing Tool to validate.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "missing_canonical",
+    title: "No canonical URL",
+    category: "technical",
+    severity: "info",
+    penalty: 0,
+    docs: "A self-referencing canonical tag protects the page against duplicates created by tracking parameters and alternate URLs.",
+    scope: "page",
+    check(page) {
+      if (page.canonical) return [];
+      return [{
+        explanation: `The page "${page.url}" has no <link rel="canonical">. Variants of the URL with query parameters may be indexed as duplicates.`,
+        recommendedFix: `Add <link rel="canonical" href="${page.finalUrl || page.url}"> to the <head>.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "duplicate_titles",
+    title: "Duplicate titles",
+    category: "meta",
+    severity: "warning",
+    penalty: 15,
+    docs: "When several pages share a title, search engines struggle to decide which one to rank for it.",
+    scope: "site",
+    check(crawl) {
+      const titleMap = new Map<string, string[]>();
+      for (const page of crawl.pages) {
+        const title = page.title.trim().toLowerCase();
+        if (!title) continue;
+        const urls = titleMap.get(title) || [];
+        urls.push(page.url);
+        titleMap.set(title, urls);
+      }
+      return Array.from(titleMap.entries())
+        .filter(([, urls]) => urls.length > 1)
+        .map(([title, urls]) => ({
+          fingerprintKey: title,
+          explanation: `${urls.length} pages share the identical title "${title}": ${urls.join(", ")}. Duplicate titles confuse search engines about which page to rank and reduce the unique signal of each page.`,
+          recommendedFix: `Give each page a unique, descriptive title that accurately reflects its specific content. Include primary keywords and differentiate by topic or intent.`,
+        }));
+    },
+  },
+];
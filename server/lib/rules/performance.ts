@@ -0,0 +1,162 @@
+import type { SeoRule } from "./types";
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+// The performance score comes from lab measurements (see scorePagePerformance), so these
+// rules explain the score rather than deduct from it.
+export const performanceRules: SeoRule[] = [
+  {
+    id: "slow_lcp",
+    title: "Slow Largest Contentful Paint",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "Largest Contentful Paint measures when the main content becomes visible. Good is under 2.5s, poor is over 4s. It is a Core Web Vital and a ranking signal.",
+    thresholds: {
+      goodMs: { label: "Report above (ms)", default: 2500 },
+      poorMs: { label: "Critical above (ms)", default: 4000 },
+    },
+    scope: "page",
+    check(page, { thresholds }) {
+      const perf = page.performance;
+      if (!perf || perf.lcpMs === null || perf.lcpMs <= thresholds.goodMs) return [];
+      return [{
+        severity: perf.lcpMs > thresholds.poorMs ? "critical" : "warning",
+        explanation: `The page "${page.url}" has a Largest Contentful Paint of ${(perf.lcpMs / 1000).toFixed(1)}s in our lab test (good: under ${(thresholds.goodMs / 1000).toFixed(1)}s). LCP is a Core Web Vital and a ranking signal.`,
+        recommendedFix: `Speed up the largest above-the-fold element: serve the hero image in a modern format with correct dimensions, preload it, reduce server response time (TTFB ${perf.ttfbMs ?? "n/a"}ms) and remove render-blocking resources.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "layout_shift",
+    title: "Layout shift",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "Cumulative Layout Shift measures how much visible content moves while the page loads. Good is under 0.1, poor is over 0.25.",
+    thresholds: {
+      good: { label: "Report above", default: 0.1 },
+      poor: { label: "Critical above", default: 0.25 },
+    },
+    scope: "page",
+    check(page, { thresholds }) {
+      const perf = page.performance;
+      if (!perf || perf.cls === null || perf.cls <= thresholds.good) return [];
+      return [{
+        severity: perf.cls > thresholds.poor ? "critical" : "warning",
+        explanation: `The page "${page.url}" has a Cumulative Layout Shift of ${perf.cls} (good: under ${thresholds.good}). Content jumping around while loading frustrates users and is a Core Web Vital.`,
+        recommendedFix: `Set explicit width and height (or aspect-ratio) on images, embeds and ads, reserve space for late-loading content, and avoid inserting content above existing content.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "high_blocking_time",
+    title: "High main-thread blocking time",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "Total Blocking Time adds up the time long JavaScript tasks block the main thread after first paint. Good is under 200ms. It is the lab proxy for Interaction to Next Paint.",
+    thresholds: {
+      goodMs: { label: "Report above (ms)", default: 200 },
+      poorMs: { label: "Critical above (ms)", default: 600 },
+    },
+    scope: "page",
+    check(page, { thresholds }) {
+      const perf = page.performance;
+      if (!perf || perf.tbtMs === null || perf.tbtMs <= thresholds.goodMs) return [];
+      return [{
+        severity: perf.tbtMs > thresholds.poorMs ? "critical" : "warning",
+        explanation: `The page "${page.url}" blocks the main thread for about ${perf.tbtMs}ms during load (Total Blocking Time, good: under ${thresholds.goodMs}ms). Long JavaScript tasks delay interactivity and correlate with poor INP.`,
+        recommendedFix: `Split long tasks, defer non-critical JavaScript, remove unused third-party scripts and move heavy work off the main thread.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "heavy_page",
+    title: "Heavy page",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "Pages that transfer more than 2 MB load slowly on mobile connections and cost visitors data.",
+    thresholds: { maxKb: { label: "Maximum transfer size (KB)", default: 2048 } },
+    scope: "page",
+    check(page, { thresholds }) {
+      const perf = page.performance;
+      if (!perf || perf.transferBytes <= thresholds.maxKb * 1024) return [];
+      const byType = Object.entries(perf.requestsByType)
+        .sort((a, b) => b[1].bytes - a[1].bytes)
+        .slice(0, 3)
+        .map(([type, stats]) => `${type} ${formatBytes(stats.bytes)}`)
+        .join(", ");
+      return [{
+        explanation: `The page "${page.url}" transfers ${formatBytes(perf.transferBytes)} in ${perf.requestCount} requests (largest: ${byType}). Heavy pages load slowly on mobile connections.`,
+        recommendedFix: `Aim for under ${formatBytes(thresholds.maxKb * 1024)}: compress and resize images, lazy-load below-the-fold media, and trim JavaScript and font payloads.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "render_blocking_resources",
+    title: "Render-blocking resources",
+    category: "performance",
+    severity: "info",
+    penalty: 0,
+    docs: "Synchronous scripts and stylesheets in the <head> must download before the browser can paint anything, delaying First and Largest Contentful Paint.",
+    scope: "page",
+    check(page) {
+      const perf = page.performance;
+      if (!perf || perf.renderBlocking.length === 0) return [];
+      return [{
+        severity: perf.renderBlocking.length > 3 ? "warning" : "info",
+        explanation: `The page "${page.url}" has ${perf.renderBlocking.length} render-blocking resource(s): ${perf.renderBlocking.slice(0, 5).join(", ")}. The browser cannot paint anything until they have downloaded.`,
+        recommendedFix: `Add defer or async to scripts, inline critical CSS and load the rest asynchronously, or use media attributes for stylesheets that are not needed for the first paint.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "uncompressed_resources",
+    title: "Uncompressed text resources",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "HTML, CSS, JavaScript, JSON and SVG compress very well. Serving them without gzip or Brotli wastes bandwidth.",
+    scope: "page",
+    check(page) {
+      const perf = page.performance;
+      if (!perf || perf.uncompressedResources.length === 0) return [];
+      return [{
+        explanation: `The page "${page.url}" serves ${perf.uncompressedResources.length} text resource(s) without gzip or Brotli compression: ${perf.uncompressedResources.slice(0, 5).join(", ")}.`,
+        recommendedFix: `Enable Brotli or gzip compression for HTML, CSS, JavaScript, JSON and SVG responses on your server or CDN.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+  {
+    id: "unoptimized_images",
+    title: "Oversized or uncompressed images",
+    category: "performance",
+    severity: "warning",
+    penalty: 0,
+    docs: "Images that are much larger than their display size, or served as large JPEG/PNG files, are usually the biggest part of page weight.",
+    scope: "page",
+    check(page) {
+      const perf = page.performance;
+      if (!perf || perf.images.length === 0) return [];
+      const list = perf.images
+        .slice(0, 5)
+        .map((img) => `${img.url} (${formatBytes(img.bytes)}, ${img.naturalWidth}x${img.naturalHeight} shown at ${img.displayWidth}x${img.displayHeight})`)
+        .join(", ");
+      return [{
+        explanation: `The page "${page.url}" has ${perf.images.length} oversized or poorly compressed image(s): ${list}.`,
+        recommendedFix: `Resize images to the size they are displayed at, serve responsive srcset variants, and convert photos to WebP or AVIF.`,
+        pageUrl: page.url,
+      }];
+    },
+  },
+];
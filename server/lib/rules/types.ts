@@ -0,0 +1,52 @@
+import type { IssueOccurrence } from "@shared/schema";
+import type { CrawlResult, CrawledPage } from "../crawler";
+
+export type IssueSeverity = "critical" | "warning" | "info";
+export type RuleCategory = "meta" | "content" | "performance" | "technical";
+
+export interface RuleFinding {
+  severity?: IssueSeverity;
+  explanation: string;
+  recommendedFix: string;
+  pageUrl?: string;
+  occurrences?: IssueOccurrence[];
+  /** Identifies a finding without a pageUrl across audits, e.g. the shared title for duplicate_titles. */
+  fingerprintKey?: string;
+}
+
+export interface RuleThreshold {
+  label: string;
+  default: number;
+}
+
+export interface RuleMetadata {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: IssueSeverity;
+  /** Points deducted from the category score for each finding. */
+  penalty: number;
+  docs: string;
+  /** Tunable limits; rule profiles can override the defaults. */
+  thresholds?: Record<string, RuleThreshold>;
+}
+
+export interface RuleContext {
+  thresholds: Record<string, number>;
+}
+
+export interface PageRule extends RuleMetadata {
+  scope: "page";
+  /** Content rules are meaningless on 4xx/5xx responses, so they are skipped unless this is set. */
+  includeErrorPages?: boolean;
+  check(page: CrawledPage, ctx: RuleContext): RuleFinding[];
+}
+
+export interface SiteRule extends RuleMetadata {
+  scope: "site";
+  check(crawl: CrawlResult, ctx: RuleContext): RuleFinding[];
+}
+
+export type SeoRule = PageRule | SiteRule;
+
+export type RuleInfo = RuleMetadata & { scope: SeoRule["scope"] };
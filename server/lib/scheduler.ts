@@ -0,0 +1,168 @@
+import { storage } from "../storage";
+import { enqueueAudit } from "./queue";
+import { AuditRequestError, createChargedAudit } from "./audits";
+import { nextCronRun } from "./cron";
+import type { AuditSchedule } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 60_000;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+let schedulerStarted = false;
+let ticking = false;
+let timer: NodeJS.Timeout | null = null;
+
+type ScheduleTiming = Pick<AuditSchedule, "frequency" | "hour" | "dayOfWeek" | "cronExpression">;
+
+/** Daily and weekly schedules are stored as an hour (and weekday) and run as the equivalent cron expression. */
+export function scheduleCronExpression(schedule: ScheduleTiming): string {
+  switch (schedule.frequency) {
+    case "daily":
+      return `0 ${schedule.hour} * * *`;
+    case "weekly":
+      return `0 ${schedule.hour} * * ${schedule.dayOfWeek ?? 1}`;
+    case "cron":
+      return schedule.cronExpression ?? "";
+  }
+}
+
+/** Clears fields the frequency doesn't use and throws if the timing can never run. */
+export function normalizeScheduleTiming(
+  input: Pick<ScheduleTiming, "frequency" | "hour"> & Partial<Pick<ScheduleTiming, "dayOfWeek" | "cronExpression">>,
+): ScheduleTiming {
+  const timing: ScheduleTiming = {
+    frequency: input.frequency,
+    hour: input.hour,
+    dayOfWeek: input.frequency === "weekly" ? input.dayOfWeek ?? null : null,
+    cronExpression: input.frequency === "cron" ? input.cronExpression?.trim() || null : null,
+  };
+  if (timing.frequency === "weekly" && timing.dayOfWeek === null) {
+    throw new Error("Weekly schedules need a day of the week");
+  }
+  if (timing.frequency === "cron" && !timing.cronExpression) {
+    throw new Error("Cron schedules need a cron expression");
+  }
+  nextScheduledRun(timing);
+  return timing;
+}
+
+export function nextScheduledRun(schedule: ScheduleTiming, from: Date = new Date()): Date {
+  return nextCronRun(scheduleCronExpression(schedule), from);
+}
+
+async function pauseSchedule(schedule: AuditSchedule, reason: string, data: Partial<AuditSchedule> = {}): Promise<void> {
+  console.log(`[Scheduler] Pausing schedule #${schedule.id}: ${reason}`);
+  await storage.updateAuditSchedule(schedule.id, { ...data, status: "paused", pausedReason: reason });
+}
+
+async function runSchedule(schedule: AuditSchedule, now: Date): Promise<void> {
+  const nextRunAt = nextScheduledRun(schedule, now);
+
+  // Every process running the scheduler sees the same due schedules; only the one that moves
+  // nextRunAt on gets to start the run.
+  if (!(await storage.claimDueSchedule(schedule.id, schedule.nextRunAt, nextRunAt))) {
+    return;
+  }
+
+  if (schedule.lastAuditId) {
+    const previous = await storage.getAudit(schedule.lastAuditId);
+    if (previous && (previous.status === "pending" || previous.status === "processing")) {
+      console.log(`[Scheduler] Skipping schedule #${schedule.id}: audit #${previous.id} is still ${previous.status}`);
+      return;
+    }
+  }
+
+  const project = await storage.getProject(schedule.projectId);
+  if (!project) return;
+
+  try {
+    const { audit, job } = await createChargedAudit(schedule.userId, {
+      url: project.rootUrl,
+      projectId: project.id,
+      scheduleId: schedule.id,
+    });
+    await storage.updateAuditSchedule(schedule.id, { lastRunAt: now, lastAuditId: audit.id });
+    await enqueueAudit(job);
+    console.log(`[Scheduler] Schedule #${schedule.id} queued audit #${audit.id} for ${project.rootUrl}`);
+  } catch (err: any) {
+    if (err instanceof AuditRequestError && err.code === "insufficient_credits") {
+      await pauseSchedule(schedule, "Not enough credits");
+      return;
+    }
+    if (err instanceof AuditRequestError && err.code === "plan_not_entitled") {
+      await pauseSchedule(schedule, "Your plan doesn't include scheduled audits");
+      return;
+    }
+    console.error(`[Scheduler] Schedule #${schedule.id} could not start an audit:`, err.message);
+    const failures = schedule.consecutiveFailures + 1;
+    if (failures >= MAX_CONSECUTIVE_FAILURES) {
+      await pauseSchedule(schedule, `${failures} scheduled runs failed in a row`, { consecutiveFailures: failures });
+    } else {
+      await storage.updateAuditSchedule(schedule.id, { consecutiveFailures: failures });
+    }
+  }
+}
+
+/** Called by the worker when a scheduled audit finishes, so repeated failures pause the schedule. */
+export async function recordScheduledRunOutcome(scheduleId: number, succeeded: boolean): Promise<void> {
+  const schedule = await storage.getAuditSchedule(scheduleId);
+  if (!schedule) return;
+
+  if (succeeded) {
+    if (schedule.consecutiveFailures > 0) {
+      await storage.updateAuditSchedule(schedule.id, { consecutiveFailures: 0 });
+    }
+    return;
+  }
+
+  const failures = schedule.consecutiveFailures + 1;
+  if (failures >= MAX_CONSECUTIVE_FAILURES && schedule.status === "active") {
+    await pauseSchedule(schedule, `${failures} scheduled audits failed in a row`, { consecutiveFailures: failures });
+  } else {
+    await storage.updateAuditSchedule(schedule.id, { consecutiveFailures: failures });
+  }
+}
+
+export async function runDueSchedules(now: Date = new Date()): Promise<void> {
+  const due = await storage.getDueSchedules(now);
+  for (const schedule of due) {
+    try {
+      await runSchedule(schedule, now);
+    } catch (err: any) {
+      console.error(`[Scheduler] Schedule #${schedule.id} failed:`, err.message);
+    }
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    await runDueSchedules();
+  } catch (err: any) {
+    console.error("[Scheduler] Tick failed:", err.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Runs are claimed atomically, so any number of processes may run the scheduler. Set
+ * SCHEDULER_ENABLED=false to keep it to one designated process and spare the others the polling.
+ */
+export function isSchedulerEnabled(): boolean {
+  return process.env.SCHEDULER_ENABLED !== "false";
+}
+
+export function startScheduler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  console.log("[Scheduler] Started");
+  timer = setInterval(tick, TICK_INTERVAL_MS);
+  tick();
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+  schedulerStarted = false;
+}
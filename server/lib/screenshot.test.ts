@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+import { runPageScript } from "./testing/runPageScript";
+
+// Screenshots are stored through the blob store, which can use the database; nothing here does.
+vi.mock("../db", () => ({ db: {}, pool: {} }));
+
+const { highlightsScript } = await import("./screenshot");
+
+const html = `<!doctype html>
+<html>
+<body>
+  <h1 id="title" data-rect="0,0,400,40">Pricing</h1>
+  <h1 class="promo banner" data-rect="0,60,400,40">Sale</h1>
+  <img src="/hero.jpg" data-rect="0,120,800,300">
+  <img src="/logo.png" alt="Logo" data-rect="0,0,50,50">
+  <img src="/pixel.gif">
+  <div class="wide" data-rect="0,500,1400,100"><span data-rect="0,500,1300,20">Inside</span></div>
+</body>
+</html>`;
+
+describe("highlightsScript", () => {
+  it("runs as a serialized page script", () => {
+    const layout = runPageScript(highlightsScript, { mobile: false, maxPerKind: 20 }, html);
+
+    expect(layout.width).toBe(1024);
+    expect(layout.highlights).toEqual([
+      { kind: "h1", selector: "h1#title", x: 0, y: 0, width: 400, height: 40 },
+      { kind: "h1", selector: "h1.promo.banner", x: 0, y: 60, width: 400, height: 40 },
+      { kind: "image_missing_alt", selector: "img", x: 0, y: 120, width: 800, height: 300 },
+    ]);
+  });
+
+  it("marks only the outermost overflowing element on mobile", () => {
+    const layout = runPageScript(highlightsScript, { mobile: true, maxPerKind: 1 }, html);
+
+    expect(layout.highlights.filter((h) => h.kind === "horizontal_overflow")).toEqual([
+      { kind: "horizontal_overflow", selector: "div.wide", x: 0, y: 500, width: 1400, height: 100 },
+    ]);
+    expect(layout.highlights.filter((h) => h.kind === "h1")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { createHash, randomUUID } from "crypto";
+import type { Page } from "playwright-core";
+import { getBlobStore } from "./blobStore";
+import type { PageScreenshot, PageScreenshots, ScreenshotHighlight, ScreenshotHighlightKind } from "@shared/schema";
+
+export type { PageScreenshot, PageScreenshots } from "@shared/schema";
+
+const MAX_SCREENSHOT_HEIGHT = 8000;
+const MAX_HIGHLIGHTS_PER_KIND = 20;
+
+export function screenshotKey(prefix: string, url: string, variant: keyof PageScreenshots): string {
+  const hash = createHash("sha1").update(url).digest("hex").slice(0, 16);
+  return `${prefix}/${hash}-${variant}.jpg`;
+}
+
+function auditScreenshotsRoot(auditId: number): string {
+  return `screenshots/audit-${auditId}/`;
+}
+
+/** Key prefix for one attempt at an audit, so a retry never overwrites screenshots a live attempt still uses. */
+export function auditScreenshotPrefix(auditId: number): string {
+  return `${auditScreenshotsRoot(auditId)}${randomUUID()}`;
+}
+
+/** Deletes the screenshots under `prefix`, e.g. those of one crawl. */
+export async function deleteScreenshots(prefix: string): Promise<void> {
+  const store = getBlobStore();
+  const keys = await store.list(`${prefix}/`);
+  await Promise.all(keys.map((key) => store.delete(key)));
+}
+
+/** Deletes all of an audit's screenshots except the attempt under `keepPrefix`. */
+export async function deleteAuditScreenshots(auditId: number, keepPrefix?: string): Promise<void> {
+  const store = getBlobStore();
+  const keys = await store.list(auditScreenshotsRoot(auditId));
+  const stale = keepPrefix ? keys.filter((key) => !key.startsWith(`${keepPrefix}/`)) : keys;
+  await Promise.all(stale.map((key) => store.delete(key)));
+}
+
+interface PageLayout {
+  width: number;
+  height: number;
+  highlights: ScreenshotHighlight[];
+}
+
+/** Runs inside the page through page.evaluate, so it may only use what it declares itself and the page's own globals. */
+export function highlightsScript(args: { mobile: boolean; maxPerKind: number }): PageLayout {
+  var highlights: ScreenshotHighlight[] = [];
+  // Object methods, not named functions: tsx (esbuild keepNames) follows every named function with a
+  // `__name()` call, and that helper doesn't exist in the page.
+  var dom = {
+    describe(el: Element): string {
+      if (el.id) return el.tagName.toLowerCase() + "#" + el.id;
+      var cls = (el.getAttribute("class") || "").trim().split(/\s+/).filter(function(c) { return c.length > 0; }).slice(0, 2);
+      return el.tagName.toLowerCase() + (cls.length > 0 ? "." + cls.join(".") : "");
+    },
+
+    add(kind: ScreenshotHighlightKind, els: Element[]): void {
+      var count = 0;
+      for (var i = 0; i < els.length && count < args.maxPerKind; i++) {
+        var rect = els[i].getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) continue;
+        highlights.push({
+          kind: kind,
+          selector: dom.describe(els[i]),
+          x: Math.round(rect.left + window.scrollX),
+          y: Math.round(rect.top + window.scrollY),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        });
+        count++;
+      }
+    },
+  };
+
+  var h1s = Array.from(document.querySelectorAll("h1"));
+  if (h1s.length > 1) dom.add("h1", h1s);
+  dom.add("image_missing_alt", Array.from(document.querySelectorAll("img")).filter(function(img) { return !img.getAttribute("alt"); }));
+
+  if (args.mobile) {
+    var viewportWidth = window.innerWidth;
+    dom.add("horizontal_overflow", Array.from(document.body ? document.body.querySelectorAll("*") : []).filter(function(el) {
+      var parent = el.parentElement;
+      return el.getBoundingClientRect().right > viewportWidth + 1
+        && !(parent && parent !== document.body && parent.getBoundingClientRect().right > viewportWidth + 1);
+    }));
+  }
+
+  return {
+    width: Math.max(document.documentElement.scrollWidth, window.innerWidth),
+    height: Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0),
+    highlights: highlights,
+  };
+}
+
+async function collectHighlights(page: Page, mobile: boolean): Promise<PageLayout> {
+  return page.evaluate(highlightsScript, { mobile, maxPerKind: MAX_HIGHLIGHTS_PER_KIND });
+}
+
+export async function capturePageScreenshot(page: Page, key: string, mobile: boolean): Promise<PageScreenshot> {
+  const layout = await collectHighlights(page, mobile);
+  const height = Math.min(layout.height, MAX_SCREENSHOT_HEIGHT);
+  const image = await page.screenshot({
+    type: "jpeg",
+    quality: 70,
+    fullPage: true,
+    clip: { x: 0, y: 0, width: layout.width, height },
+  });
+  await getBlobStore().put(key, image, "image/jpeg");
+  return {
+    key,
+    width: layout.width,
+    height,
+    highlights: layout.highlights.filter((h) => h.y < height),
+  };
+}
@@ -0,0 +1,127 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { discoverSitemapUrls } from "./sitemap";
+
+let server: Server;
+let origin: string;
+let requests: string[] = [];
+
+const bigIndexChildren = Array.from({ length: 40 }, (_, i) => `/big/${i}.xml`);
+
+const routes: Record<string, () => { body: string | Buffer; type?: string; length?: number }> = {
+  "/sitemap_index.xml": () => ({
+    body: `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${origin}/sitemap-pages.xml</loc></sitemap>
+  <sitemap><loc>${origin}/sitemap-posts.xml.gz</loc></sitemap>
+  <sitemap><loc>${origin}/sitemap-pages.xml</loc></sitemap>
+</sitemapindex>`,
+  }),
+  "/sitemap-pages.xml": () => ({
+    body: `<?xml version="1.0" encoding="UTF-8"?>
+<ns:urlset xmlns:ns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <ns:url><ns:loc>${origin}/</ns:loc><ns:lastmod>2026-01-01</ns:lastmod></ns:url>
+  <ns:url><ns:loc> ${origin}/search?q=a&amp;page=2 </ns:loc></ns:url>
+  <ns:url><ns:loc><![CDATA[${origin}/about]]></ns:loc></ns:url>
+</ns:urlset>`,
+  }),
+  "/sitemap-posts.xml.gz": () => ({
+    body: gzipSync(`<urlset><url><loc>${origin}/blog/first</loc></url><url><loc>${origin}/about</loc></url></urlset>`),
+    type: "application/gzip",
+  }),
+  "/not-a-sitemap.xml": () => ({ body: "<html><body>Not found</body></html>", type: "text/html" }),
+  "/big-index.xml": () => ({
+    body: `<sitemapindex>${bigIndexChildren.map((path) => `<sitemap><loc>${origin}${path}</loc></sitemap>`).join("")}</sitemapindex>`,
+  }),
+  // Claims more than the protocol's 50 MB limit; the body is never read.
+  "/huge.xml": () => ({ body: "<urlset></urlset>", length: 60 * 1024 * 1024 }),
+  // A few KB that inflate past 50 MB.
+  "/bomb.xml.gz": () => ({ body: gzipSync(Buffer.alloc(51 * 1024 * 1024)), type: "application/gzip" }),
+};
+for (const path of bigIndexChildren) {
+  routes[path] = () => ({ body: `<urlset><url><loc>${origin}${path.replace(".xml", "")}</loc></url></urlset>` });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req.url ?? "");
+    const route = routes[req.url ?? ""];
+    if (!route) {
+      res.writeHead(404).end();
+      return;
+    }
+    const { body, type, length } = route();
+    res.writeHead(200, { "Content-Type": type ?? "application/xml", "Content-Length": length ?? Buffer.byteLength(body) }).end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// A port nothing is listening on, so requests to it are refused.
+async function unusedOrigin(): Promise<string> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return `http://127.0.0.1:${port}`;
+}
+
+describe("discoverSitemapUrls", () => {
+  it("follows sitemap indexes and reads plain and gzipped sitemaps", async () => {
+    const result = await discoverSitemapUrls([`${origin}/sitemap_index.xml`]);
+
+    expect(result.sitemaps).toEqual([
+      `${origin}/sitemap_index.xml`,
+      `${origin}/sitemap-pages.xml`,
+      `${origin}/sitemap-posts.xml.gz`,
+    ]);
+    expect(result.urls).toEqual([
+      `${origin}/`,
+      `${origin}/search?q=a&page=2`,
+      `${origin}/about`,
+      `${origin}/blog/first`,
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("skips candidates that are missing or aren't sitemaps", async () => {
+    const result = await discoverSitemapUrls([`${origin}/missing.xml`, `${origin}/not-a-sitemap.xml`, `${origin}/sitemap-pages.xml`]);
+
+    expect(result.sitemaps).toEqual([`${origin}/sitemap-pages.xml`]);
+    expect(result.urls).toHaveLength(3);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("reports sitemaps that can't be fetched", async () => {
+    const sitemapUrl = `${await unusedOrigin()}/sitemap.xml`;
+    const result = await discoverSitemapUrls([sitemapUrl]);
+
+    expect(result.sitemaps).toEqual([]);
+    expect(result.errors).toEqual([expect.stringContaining(`Failed to fetch sitemap ${sitemapUrl}`)]);
+  });
+
+  it("refuses sitemaps over 50 MB, compressed or not", async () => {
+    const result = await discoverSitemapUrls([`${origin}/huge.xml`, `${origin}/bomb.xml.gz`, `${origin}/sitemap-pages.xml`]);
+
+    expect(result.sitemaps).toEqual([`${origin}/sitemap-pages.xml`]);
+    expect(result.errors).toEqual([
+      `Failed to fetch sitemap ${origin}/huge.xml: Sitemap is larger than 50 MB`,
+      `Failed to fetch sitemap ${origin}/bomb.xml.gz: Sitemap is larger than 50 MB`,
+    ]);
+  });
+
+  it("stops following an index once the sitemap limit is reached", async () => {
+    requests = [];
+    const result = await discoverSitemapUrls([`${origin}/big-index.xml`]);
+
+    expect(requests).toHaveLength(25);
+    expect(result.sitemaps).toEqual(requests.map((path) => `${origin}${path}`));
+    expect(result.urls).toHaveLength(24);
+  });
+});
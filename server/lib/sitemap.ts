@@ -0,0 +1,116 @@
+import { gunzipSync } from "zlib";
+
+const FETCH_TIMEOUT = 10000;
+const MAX_SITEMAPS = 25;
+const MAX_SITEMAP_URLS = 5000;
+// The sitemap protocol's own limit for a single file, compressed or not.
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapDiscovery {
+  sitemaps: string[];
+  urls: string[];
+  errors: string[];
+}
+
+const tooLargeMessage = `Sitemap is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`;
+
+async function readLimited(res: Response): Promise<Buffer> {
+  if (Number(res.headers.get("content-length")) > MAX_SITEMAP_BYTES) {
+    await res.body?.cancel();
+    throw new Error(tooLargeMessage);
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw new Error(tooLargeMessage);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchSitemapBody(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) return null;
+    const buf = await readLimited(res);
+    const isGzip = buf.length > 2 && buf[0] === 0x1f && buf[1] === 0x8b;
+    if (!isGzip) return buf.toString("utf-8");
+    try {
+      return gunzipSync(buf, { maxOutputLength: MAX_SITEMAP_BYTES }).toString("utf-8");
+    } catch (err: any) {
+      if (err.code === "ERR_BUFFER_TOO_LARGE") throw new Error(tooLargeMessage);
+      throw err;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
+
+function extractLocs(xml: string, container: "sitemap" | "url"): string[] {
+  const locs: string[] = [];
+  const blockRe = new RegExp(`<(?:\\w+:)?${container}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${container}>`, "gi");
+  let block: RegExpExecArray | null;
+  while ((block = blockRe.exec(xml)) !== null) {
+    const loc = /<(?:\w+:)?loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/(?:\w+:)?loc>/i.exec(block[1]);
+    if (loc && loc[1].trim()) locs.push(decodeXmlEntities(loc[1].trim()));
+  }
+  return locs;
+}
+
+export async function discoverSitemapUrls(candidates: string[]): Promise<SitemapDiscovery> {
+  const queue = Array.from(new Set(candidates));
+  // Everything ever queued, so a huge index can't grow the queue past what will be fetched.
+  const queued = new Set(queue);
+  const seen = new Set<string>();
+  const sitemaps: string[] = [];
+  const urls = new Set<string>();
+  const errors: string[] = [];
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAPS && urls.size < MAX_SITEMAP_URLS) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    let body: string | null;
+    try {
+      body = await fetchSitemapBody(sitemapUrl);
+    } catch (err: any) {
+      errors.push(`Failed to fetch sitemap ${sitemapUrl}: ${err.message}`);
+      continue;
+    }
+    if (!body || !/<(?:\w+:)?(?:urlset|sitemapindex)\b/i.test(body)) continue;
+
+    sitemaps.push(sitemapUrl);
+    for (const child of extractLocs(body, "sitemap")) {
+      if (queued.size >= MAX_SITEMAPS) break;
+      if (queued.has(child)) continue;
+      queued.add(child);
+      queue.push(child);
+    }
+    for (const loc of extractLocs(body, "url")) {
+      if (urls.size >= MAX_SITEMAP_URLS) break;
+      urls.add(loc);
+    }
+  }
+
+  return { sitemaps, urls: Array.from(urls), errors };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import type { IssueSuppression, RuleSettings } from "@shared/schema";
+import type { CrawlResult, CrawledPage } from "./crawler";
+import { analyzeRules, issueFingerprint, type SeoIssue } from "./analyzer";
+import { getRules } from "./rules";
+import { applySuppressions, matchesSuppression } from "./suppressions";
+import { matchesUrlPattern } from "./urls";
+
+const noHeadings = { h1: [], h2: [], h3: [], h4: [], h5: [], h6: [] };
+
+function page(url: string, fields: Partial<CrawledPage> = {}): CrawledPage {
+  return {
+    url,
+    finalUrl: url,
+    httpStatus: 200,
+    title: "",
+    headings: { ...noHeadings, h1: ["Heading"] },
+    images: [],
+    elements: { title: null, metaDescription: null, canonical: null, robotsMeta: [], h1: [], imagesWithoutAlt: [] },
+    ...fields,
+  } as CrawledPage;
+}
+
+const imageWithoutAlt = { images: [{ src: "/hero.jpg", alt: "" }] };
+
+/** Runs only the given registry rules over the pages, so issues carry the fingerprints audits store. */
+function analyze(ruleIds: string[], pages: CrawledPage[]): SeoIssue[] {
+  const settings: RuleSettings = {};
+  for (const rule of getRules()) {
+    if (!ruleIds.includes(rule.id)) settings[rule.id] = { enabled: false, severity: null, thresholds: {}, exceptions: [] };
+  }
+  return analyzeRules({ pages } as CrawlResult, settings).issues;
+}
+
+function byRule(issues: SeoIssue[], ruleId: string): SeoIssue {
+  const issue = issues.find((i) => i.issueType === ruleId);
+  expect(issue).toBeDefined();
+  return issue!;
+}
+
+function only(ruleId: string, pages: CrawledPage[]): SeoIssue {
+  const issues = analyze([ruleId], pages);
+  expect(issues).toHaveLength(1);
+  return issues[0];
+}
+
+function suppression(fields: Partial<IssueSuppression>): IssueSuppression {
+  return {
+    id: 1,
+    userId: "user-1",
+    domain: "example.com",
+    issueType: "missing_alt_tags",
+    scope: "site",
+    fingerprint: null,
+    urlPattern: null,
+    reason: "Decorative images",
+    createdAt: new Date(),
+    ...fields,
+  };
+}
+
+describe("issue fingerprints", () => {
+  it("stay the same across audits despite host case and trailing slashes", () => {
+    const first = only("missing_alt_tags", [page("https://example.com/blog/", imageWithoutAlt)]);
+    const second = only("missing_alt_tags", [page("https://EXAMPLE.com/blog", imageWithoutAlt)]);
+    expect(second.fingerprint).toBe(first.fingerprint);
+    expect(first.fingerprint).toBe(issueFingerprint("missing_alt_tags", "https://example.com/blog"));
+  });
+
+  it("differ by rule, query string and fingerprint key", () => {
+    const issues = analyze(["missing_alt_tags", "missing_h1"], [page("https://example.com/blog", { ...imageWithoutAlt, headings: noHeadings })]);
+    const altIssue = byRule(issues, "missing_alt_tags");
+    expect(byRule(issues, "missing_h1").fingerprint).not.toBe(altIssue.fingerprint);
+
+    const paged = only("missing_alt_tags", [page("https://example.com/blog?page=2", imageWithoutAlt)]);
+    expect(paged.fingerprint).not.toBe(altIssue.fingerprint);
+
+    // Site-wide findings are keyed by what they are about, here the shared title.
+    const titles = analyze(["duplicate_titles"], [
+      page("https://example.com/a", { title: "Home" }),
+      page("https://example.com/b", { title: "Home" }),
+      page("https://example.com/c", { title: "Blog" }),
+      page("https://example.com/d", { title: "Blog" }),
+    ]);
+    expect(titles).toHaveLength(2);
+    expect(titles[0].fingerprint).not.toBe(titles[1].fingerprint);
+  });
+});
+
+describe("matchesUrlPattern", () => {
+  it("matches the path and query string unless the pattern is a full URL", () => {
+    expect(matchesUrlPattern("https://example.com/blog/post-1", "/blog/*")).toBe(true);
+    expect(matchesUrlPattern("https://example.com/shop?page=2", "/shop?page=*")).toBe(true);
+    expect(matchesUrlPattern("https://example.com/about", "/blog/*")).toBe(false);
+    expect(matchesUrlPattern("https://example.com/blog/post-1", "https://example.com/blog/*")).toBe(true);
+    expect(matchesUrlPattern("https://other.com/blog/post-1", "https://example.com/*")).toBe(false);
+  });
+
+  it("is case-insensitive and treats regex characters literally", () => {
+    expect(matchesUrlPattern("https://example.com/Docs/v1.2", "/docs/v1.2")).toBe(true);
+    expect(matchesUrlPattern("https://example.com/docs/v1x2", "/docs/v1.2")).toBe(false);
+  });
+});
+
+describe("matchesSuppression", () => {
+  const postIssue = only("missing_alt_tags", [page("https://example.com/blog/post-1", imageWithoutAlt)]);
+
+  it("matches url suppressions by fingerprint only", () => {
+    expect(matchesSuppression(postIssue, suppression({ scope: "url", fingerprint: postIssue.fingerprint }))).toBe(true);
+    const otherPost = only("missing_alt_tags", [page("https://example.com/blog/post-2", imageWithoutAlt)]);
+    expect(matchesSuppression(otherPost, suppression({ scope: "url", fingerprint: postIssue.fingerprint }))).toBe(false);
+  });
+
+  it("matches pattern suppressions against the issue's page", () => {
+    expect(matchesSuppression(postIssue, suppression({ scope: "pattern", urlPattern: "/blog/*" }))).toBe(true);
+    expect(matchesSuppression(postIssue, suppression({ scope: "pattern", urlPattern: "/docs/*" }))).toBe(false);
+    // Site-wide findings have no page, so only a "site" suppression can hide them.
+    const [siteWide] = analyze(["duplicate_titles"], [page("https://example.com/a", { title: "Home" }), page("https://example.com/b", { title: "Home" })]);
+    expect(matchesSuppression(siteWide, suppression({ issueType: "duplicate_titles", scope: "pattern", urlPattern: "*" }))).toBe(false);
+    expect(matchesSuppression(siteWide, suppression({ issueType: "duplicate_titles", scope: "site" }))).toBe(true);
+  });
+
+  it("matches site suppressions for the same rule only", () => {
+    expect(matchesSuppression(postIssue, suppression({ scope: "site" }))).toBe(true);
+    expect(matchesSuppression(postIssue, suppression({ scope: "site", issueType: "missing_h1" }))).toBe(false);
+  });
+});
+
+describe("applySuppressions", () => {
+  it("splits issues and records which suppression hid each one", () => {
+    const issues = analyze(["missing_alt_tags", "missing_h1"], [page("https://example.com/blog/post-1", { ...imageWithoutAlt, headings: noHeadings })]);
+    const rule = suppression({ id: 7, scope: "pattern", urlPattern: "/blog/*" });
+
+    const { active, suppressed } = applySuppressions(issues, [rule]);
+    expect(active).toEqual([byRule(issues, "missing_h1")]);
+    expect(suppressed).toEqual([
+      {
+        issue: byRule(issues, "missing_alt_tags"),
+        suppression: { id: 7, scope: "pattern", reason: "Decorative images", urlPattern: "/blog/*" },
+      },
+    ]);
+  });
+});
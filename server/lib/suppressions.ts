@@ -0,0 +1,46 @@
+import type { IssueSuppression } from "@shared/schema";
+import { matchesUrlPattern } from "./urls";
+import type { SeoIssue } from "./analyzer";
+
+export interface SuppressedIssue {
+  issue: SeoIssue;
+  suppression: Pick<IssueSuppression, "id" | "scope" | "reason" | "urlPattern">;
+}
+
+/**
+ * A "url" suppression hides exactly the issue it was created from (same fingerprint). "pattern"
+ * and "site" suppressions hide every issue of that type on matching pages of the domain.
+ */
+export function matchesSuppression(issue: SeoIssue, suppression: IssueSuppression): boolean {
+  if (suppression.issueType !== issue.issueType) return false;
+  switch (suppression.scope) {
+    case "url":
+      return suppression.fingerprint === issue.fingerprint;
+    case "pattern":
+      return !!issue.pageUrl && !!suppression.urlPattern && matchesUrlPattern(issue.pageUrl, suppression.urlPattern);
+    case "site":
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function applySuppressions(
+  issues: SeoIssue[],
+  suppressions: IssueSuppression[]
+): { active: SeoIssue[]; suppressed: SuppressedIssue[] } {
+  const active: SeoIssue[] = [];
+  const suppressed: SuppressedIssue[] = [];
+  for (const issue of issues) {
+    const match = suppressions.find((s) => matchesSuppression(issue, s));
+    if (match) {
+      suppressed.push({
+        issue,
+        suppression: { id: match.id, scope: match.scope, reason: match.reason, urlPattern: match.urlPattern },
+      });
+    } else {
+      active.push(issue);
+    }
+  }
+  return { active, suppressed };
+}
@@ -0,0 +1,32 @@
+import { transformSync } from "esbuild";
+import { JSDOM } from "jsdom";
+
+/**
+ * Serializes a page.evaluate callback the way it reaches the browser under the dev scripts: tsx
+ * compiles with esbuild's keepNames, which Vite (and so Vitest) turns off.
+ */
+function serializeLikeTsx(script: (...args: any[]) => unknown): string {
+  const { code } = transformSync(`module.exports = ${script.toString()};`, { format: "cjs", keepNames: true });
+  const mod = { exports: null as unknown as (...args: any[]) => unknown };
+  new Function("module", code)(mod);
+  return mod.exports.toString();
+}
+
+/**
+ * Runs a page.evaluate callback in a page, where nothing from the module that defined it (such as
+ * esbuild's `__name` helper) is in scope. jsdom does no layout, so elements may declare their box
+ * as `data-rect="left,top,width,height"`.
+ */
+export function runPageScript<A, R>(script: (args: A) => R, args: A, html: string, url = "https://example.com/"): R {
+  const dom = new JSDOM(html, { url, runScripts: "outside-only" });
+  // jsdom has no CSS namespace; browsers do.
+  dom.window.eval(`window.CSS = { escape: function(v) { return String(v).replace(/[^a-zA-Z0-9_-]/g, "\\\\$&"); } };`);
+  const layout = dom.window.Element.prototype.getBoundingClientRect;
+  dom.window.Element.prototype.getBoundingClientRect = function (this: Element) {
+    const rect = this.getAttribute("data-rect");
+    if (!rect) return layout.call(this);
+    const [left, top, width, height] = rect.split(",").map(Number);
+    return new dom.window.DOMRect(left, top, width, height);
+  };
+  return dom.window.eval(`(${serializeLikeTsx(script)})(${JSON.stringify(args)})`) as R;
+}
@@ -0,0 +1,41 @@
+// URL helpers shared by the crawler, the rules and the web process, kept apart from the crawler so
+// importing them doesn't load Playwright.
+
+export function extractDomain(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname;
+  } catch {
+    return url;
+  }
+}
+
+export function normalizeUrl(raw: string, base: string): string | null {
+  try {
+    const u = new URL(raw, base);
+    u.hash = "";
+    u.search = "";
+    const path = u.pathname.replace(/\/+$/, "") || "/";
+    return `${u.protocol}//${u.hostname}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Matches a URL against a pattern where `*` matches anything. Patterns starting with "http" match
+ * the whole URL; others match the path and query string.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  let path = url;
+  try {
+    const u = new URL(url);
+    path = u.pathname + u.search;
+  } catch {}
+  const target = pattern.startsWith("http") ? url : path;
+  const regex = new RegExp(
+    "^" + pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$",
+    "i"
+  );
+  return regex.test(target);
+}
@@ -1,78 +1,222 @@
-import { dequeueJob, setOnJobReady, updateJobProgress, type AuditJob } from "./queue";
+import {
+  AuditCancelledError,
+  HEARTBEAT_INTERVAL_MS,
+  LEASE_TIMEOUT_MS,
+  LeaseLostError,
+  claimJob,
+  completeJob,
+  emitAuditEvent,
+  failJob,
+  finishCancelledJob,
+  heartbeatJob,
+  recoverStaleJobs,
+  requeueAuditsWithoutJob,
+  setOnCancelRequested,
+  setOnJobReady,
+  updateJobProgress,
+  workerId,
+  type AuditJob,
+} from "./queue";
 import { crawlDomain } from "./crawler";
-import { analyzeRules } from "./analyzer";
-import { generateFixes } from "./aiFixer";
+import { analyzeRules, summarizeIssues, type SeoIssue } from "./analyzer";
+import { applySuppressions } from "./suppressions";
+import { getRule } from "./rules";
+import { generateFixes, type AiFixerResult } from "./aiFixer";
+import { scorePagePerformance } from "./performance";
+import { auditScreenshotPrefix, deleteAuditScreenshots, deleteScreenshots } from "./screenshot";
+import { recordScheduledRunOutcome } from "./scheduler";
+import { refundAuditCredit } from "./audits";
 import { storage } from "../storage";
-import type { CrawledPage } from "./crawler";
+import type { CrawlResult, CrawledPage } from "./crawler";
 
+// Slots in this process; how many of them one user can fill is capped by their plan when jobs are claimed.
 const CONCURRENCY = 2;
+// Other processes can enqueue jobs too, so the worker polls as well as reacting to local enqueues.
+const POLL_INTERVAL_MS = 5_000;
 let runningCount = 0;
+let claiming = false;
 let workerStarted = false;
+let stopping = false;
+let timers: NodeJS.Timeout[] = [];
+const runningJobs = new Map<number, AbortController>();
+
+// Share of the progress bar each stage covers; crawling and fixing advance with real page and fix counts.
+const CRAWL_PERCENT = { from: 2, to: 60 };
+const ANALYZE_PERCENT = 62;
+const FIX_PERCENT = { from: 65, to: 92 };
+const SAVE_PERCENT = 95;
+
+function bandPercent(band: { from: number; to: number }, done: number, total: number): number {
+  const ratio = total > 0 ? Math.min(done / total, 1) : 1;
+  return Math.round(band.from + (band.to - band.from) * ratio);
+}
 
 async function processJob(job: AuditJob): Promise<void> {
-  const { auditId, userId, url } = job;
+  const { auditId, userId, url, domain, config, ruleProfile } = job;
   console.log(`[Worker] Processing audit #${auditId} for ${url}`);
 
+  const controller = new AbortController();
+  const { signal } = controller;
+  runningJobs.set(auditId, controller);
+  const screenshotPrefix = auditScreenshotPrefix(auditId);
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(auditId)
+      .then(({ held, cancelRequested }) => {
+        if (cancelRequested) controller.abort(new AuditCancelledError());
+        // Another worker owns the job now; stop before both write results for it.
+        else if (!held) controller.abort(new LeaseLostError(auditId));
+      })
+      .catch((err) => console.error(`[Worker] Heartbeat failed for audit #${auditId}:`, err.message));
+  }, HEARTBEAT_INTERVAL_MS);
+
   try {
     await storage.updateAudit(auditId, { status: "processing" });
 
-    updateJobProgress(auditId, { stage: "crawling", message: "Crawling website pages", percent: 10 });
-    const crawlData = await crawlDomain(url);
+    await updateJobProgress(auditId, { stage: "crawling", message: "Crawling website pages", percent: CRAWL_PERCENT.from });
+    const crawlData = await crawlDomain(url, config, {
+      signal,
+      screenshotPrefix,
+      onPage: async (page) => {
+        await updateJobProgress(
+          auditId,
+          {
+            stage: "crawling",
+            message: `Crawled ${page.crawled} of up to ${config.maxPages} pages`,
+            percent: bandPercent(CRAWL_PERCENT, page.crawled, config.maxPages),
+          },
+          {},
+          [{ type: "page", ...page, maxPages: config.maxPages }],
+        );
+      },
+    });
     console.log(`[Worker] Crawled ${crawlData.pagesCrawled} pages for audit #${auditId}`);
 
-    updateJobProgress(auditId, { stage: "analyzing", message: "Running SEO rule analysis", percent: 40 });
-    const ruleAnalysis = analyzeRules(crawlData);
-    console.log(`[Worker] Found ${ruleAnalysis.meta.totalIssues} rule-based issues for audit #${auditId}`);
-
-    updateJobProgress(auditId, { stage: "fixing", message: "Generating AI-powered fixes", percent: 60 });
-    const aiResult = await generateFixes(crawlData.pages, ruleAnalysis.issues);
-    console.log(`[Worker] Generated ${aiResult.totalFixesGenerated} AI fixes for audit #${auditId}`);
-
-    updateJobProgress(auditId, { stage: "saving", message: "Saving results", percent: 85 });
-
-    if (crawlData.pages.length > 0) {
-      const pageRecords = crawlData.pages.map((page: CrawledPage) => ({
-        auditId,
-        url: page.url,
-        title: page.title ?? null,
-        metaDescription: page.metaDescription ?? null,
-        headings: page.headings ?? null,
-        wordCount: page.wordCount ?? 0,
-        internalLinks: page.internalLinks ?? 0,
-        externalLinks: page.externalLinks ?? 0,
-        images: page.images.length ?? 0,
-        schemaDetected: page.schemaScripts.map((s: any) => s["@type"] || "unknown"),
-        issues: page.issues ?? null,
-      }));
-      await storage.createAuditPages(pageRecords);
+    signal.throwIfAborted();
+    await updateJobProgress(auditId, { stage: "analyzing", message: "Running SEO rule analysis", percent: ANALYZE_PERCENT });
+    const fullAnalysis = analyzeRules(crawlData, ruleProfile?.rules);
+    const suppressions = await storage.getIssueSuppressions(userId, domain);
+    const { active, suppressed } = applySuppressions(fullAnalysis.issues, suppressions);
+    const ruleAnalysis = summarizeIssues(active, fullAnalysis.meta.pagesAnalyzed);
+    console.log(`[Worker] Found ${ruleAnalysis.meta.totalIssues} rule-based issues (${suppressed.length} suppressed) for audit #${auditId}`);
+    const { totalIssues, critical, warnings, info } = ruleAnalysis.meta;
+    await emitAuditEvent(auditId, { type: "issues", total: totalIssues, critical, warnings, info });
+
+    signal.throwIfAborted();
+    let aiResult: AiFixerResult = {
+      fixes: [],
+      totalFixesGenerated: 0,
+      cachedFixes: 0,
+      generatedFixes: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: null,
+      overBudget: 0,
+      failedValidation: 0,
+    };
+    if (config.aiFixes) {
+      await updateJobProgress(auditId, { stage: "fixing", message: "Generating AI-powered fixes", percent: FIX_PERCENT.from });
+      aiResult = await generateFixes(crawlData.pages, ruleAnalysis.issues, {
+        signal,
+        onFix: async (fix) => {
+          signal.throwIfAborted();
+          await updateJobProgress(
+            auditId,
+            {
+              stage: "fixing",
+              message: `${fix.cached ? "Reused cached" : "Generated"} AI fix ${fix.index} of ${fix.total}`,
+              percent: bandPercent(FIX_PERCENT, fix.index, fix.total),
+            },
+            {},
+            [{ type: "fix", ...fix }],
+          );
+        },
+      });
+      console.log(
+        `[Worker] Generated ${aiResult.generatedFixes} AI fixes and reused ${aiResult.cachedFixes} cached fixes for audit #${auditId} (${aiResult.promptTokens + aiResult.completionTokens} tokens)`,
+      );
     }
 
-    const allIssues = ruleAnalysis.issues.map((i) => ({
-      severity: i.severity,
-      title: i.issueType.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()),
-      description: i.explanation,
-      recommendedFix: i.recommendedFix,
+    signal.throwIfAborted();
+    await updateJobProgress(auditId, { stage: "saving", message: "Saving results", percent: SAVE_PERCENT });
+
+    const allIssues = ruleAnalysis.issues.map(toReportIssue);
+
+    const graphMetrics = crawlData.linkGraph.metrics;
+    const pageRecords = crawlData.pages.map((page: CrawledPage) => ({
+      auditId,
+      url: page.url,
+      finalUrl: page.finalUrl ?? null,
+      httpStatus: page.httpStatus ?? null,
+      redirectChain: page.redirectChain ?? [],
+      contentType: page.contentType ?? null,
+      responseHeaders: page.headers ?? null,
+      indexable: !page.robots.noindex,
+      robotsDirectives: page.robots,
+      title: page.title ?? null,
+      metaDescription: page.metaDescription ?? null,
+      headings: page.headings ?? null,
+      wordCount: page.wordCount ?? 0,
+      internalLinks: page.internalLinks ?? 0,
+      externalLinks: page.externalLinks ?? 0,
+      inboundLinks: graphMetrics[page.url]?.inboundLinks ?? 0,
+      clickDepth: graphMetrics[page.url]?.clickDepth ?? null,
+      pageRank: graphMetrics[page.url]?.pageRank ?? null,
+      images: page.images.length ?? 0,
+      schemaDetected: page.schemaScripts.map((s: any) => s["@type"] || "unknown"),
+      performance: page.performance,
+      performanceScore: page.performance ? scorePagePerformance(page.performance) : null,
+      mobile: page.mobile,
+      screenshots: page.screenshots,
+      issues: allIssues.filter((i) => i.pageUrl === page.url),
+    }));
+
+    const edgeRecords = crawlData.linkGraph.edges.map((edge) => ({
+      auditId,
+      sourceUrl: edge.source,
+      targetUrl: edge.target,
+      anchorText: edge.anchorText,
+      nofollow: edge.nofollow,
+    }));
+
+    const linkRecords = (crawlData.linkCheck?.links ?? []).map((link) => ({
+      auditId,
+      url: link.url,
+      internal: link.internal,
+      status: link.status,
+      error: link.error,
+      broken: link.broken,
+      sources: link.sources,
     }));
 
     const scores = computeScores(crawlData.pages, ruleAnalysis);
 
     const results = {
       issues: allIssues,
+      suppressedIssues: suppressed.map(({ issue, suppression }) => ({ ...toReportIssue(issue), suppression })),
       recommendations: allIssues
         .filter((i) => i.severity === "critical" || i.severity === "warning")
         .map((i) => i.recommendedFix),
       fixes: aiResult.fixes,
+      sitemap: crawlData.sitemap,
+      links: crawlData.linkCheck
+        ? {
+            checked: crawlData.linkCheck.checked,
+            skipped: crawlData.linkCheck.skipped,
+            broken: crawlData.linkCheck.links.filter((l) => l.broken).length,
+          }
+        : null,
       details: {
         meta: buildMetaDetails(crawlData.pages),
         content: buildContentDetails(crawlData.pages),
-        performance: buildPerformanceDetails(crawlData.pages),
-        technical: buildTechnicalDetails(crawlData.pages),
+        performance: buildPerformanceDetails(crawlData.pages, config.mobile),
+        technical: buildTechnicalDetails(crawlData),
       },
     };
 
     const summary = buildSummary(crawlData, ruleAnalysis, scores);
 
-    await storage.updateAudit(auditId, {
+    const audit = {
       status: "completed",
       overallScore: scores.overall,
       metaScore: scores.meta,
@@ -82,61 +226,120 @@ async function processJob(job: AuditJob): Promise<void> {
       pagesCrawled: crawlData.pagesCrawled,
       issuesFound: ruleAnalysis.meta.totalIssues,
       fixesGenerated: aiResult.totalFixesGenerated,
+      fixesCached: aiResult.cachedFixes,
+      aiPromptTokens: aiResult.promptTokens,
+      aiCompletionTokens: aiResult.completionTokens,
+      aiCostUsd: aiResult.costUsd,
       summary,
       results,
       completedAt: new Date(),
-    });
+    };
 
+    if (!(await storage.saveAuditResults(auditId, workerId, { pages: pageRecords, edges: edgeRecords, links: linkRecords, audit }))) {
+      throw new LeaseLostError(auditId);
+    }
+    await completeJob(auditId);
     await storage.incrementTotalAudits(userId);
-
-    updateJobProgress(auditId, { stage: "done", message: "Audit complete", percent: 100 });
     console.log(`[Worker] Audit #${auditId} completed successfully`);
+    // Screenshots of earlier attempts at this audit are no longer referenced by any page.
+    await discardScreenshots(auditId, deleteAuditScreenshots(auditId, screenshotPrefix));
+    await reportScheduledRun(job, true);
   } catch (err: any) {
-    console.error(`[Worker] Audit #${auditId} failed:`, err.message);
-    updateJobProgress(auditId, { stage: "error", message: err.message, percent: 0 });
+    if (err instanceof LeaseLostError || signal.reason instanceof LeaseLostError) {
+      // The job's new worker reports the outcome; anything this one wrote is replaced when it saves.
+      console.warn(`[Worker] Lost the lease on audit #${auditId}, leaving it to its new worker`);
+      controller.abort(err);
+      await discardScreenshots(auditId, deleteScreenshots(screenshotPrefix));
+      return;
+    }
 
-    await storage.updateAudit(auditId, { status: "failed" });
+    if (signal.aborted) {
+      console.log(`[Worker] Audit #${auditId} cancelled`);
+      try {
+        await finishCancelledJob(auditId, userId);
+      } catch (cancelErr: any) {
+        console.error(`[Worker] Could not record cancellation of audit #${auditId}:`, cancelErr.message);
+      }
+      await discardScreenshots(auditId, deleteAuditScreenshots(auditId));
+      return;
+    }
+
+    console.error(`[Worker] Audit #${auditId} failed:`, err.message);
 
     try {
-      const profile = await storage.getProfile(userId);
-      if (profile) {
-        await storage.updateProfileCredits(userId, profile.credits + 1);
-        await storage.createCreditTransaction({
-          userId,
-          amount: 1,
-          type: "refund",
-          description: `Refund for failed audit: ${url}`,
-          auditId,
-        });
-      }
+      await failJob(auditId, err.message);
+      await storage.updateAudit(auditId, { status: "failed" });
+      await refundAuditCredit(userId, auditId, `Refund for failed audit: ${url}`);
     } catch (refundErr: any) {
+      if (refundErr instanceof LeaseLostError) {
+        console.warn(`[Worker] Lost the lease on audit #${auditId} before recording its failure`);
+        await discardScreenshots(auditId, deleteScreenshots(screenshotPrefix));
+        return;
+      }
       console.error(`[Worker] Refund failed for audit #${auditId}:`, refundErr.message);
     }
+
+    await discardScreenshots(auditId, deleteAuditScreenshots(auditId));
+
+    await reportScheduledRun(job, false);
+  } finally {
+    clearInterval(heartbeat);
+    runningJobs.delete(auditId);
   }
 }
 
-function computeScores(pages: CrawledPage[], analysis: { issues: { issueType: string; severity: string }[]; meta: { totalIssues: number } }) {
-  let meta = 100, content = 100, performance = 100, technical = 100;
+// Leftover screenshots only waste space, so a failed cleanup never changes how the job ends.
+async function discardScreenshots(auditId: number, deletion: Promise<void>): Promise<void> {
+  try {
+    await deletion;
+  } catch (err: any) {
+    console.warn(`[Worker] Could not delete screenshots of audit #${auditId}:`, err.message);
+  }
+}
 
-  const penalties: Record<string, { category: string; amount: number }> = {
-    missing_meta_description: { category: "meta", amount: 25 },
-    missing_h1: { category: "content", amount: 20 },
-    multiple_h1: { category: "content", amount: 10 },
-    thin_content: { category: "content", amount: 15 },
-    duplicate_titles: { category: "meta", amount: 15 },
-    missing_alt_tags: { category: "performance", amount: 10 },
-    no_schema: { category: "technical", amount: 10 },
-    orphan_page: { category: "technical", amount: 10 },
+async function reportScheduledRun(job: AuditJob, succeeded: boolean): Promise<void> {
+  if (!job.scheduleId) return;
+  try {
+    await recordScheduledRunOutcome(job.scheduleId, succeeded);
+  } catch (err: any) {
+    console.error(`[Worker] Could not update schedule #${job.scheduleId}:`, err.message);
+  }
+}
+
+function toReportIssue(issue: SeoIssue) {
+  const rule = getRule(issue.issueType);
+  return {
+    issueType: issue.issueType,
+    category: rule?.category ?? null,
+    severity: issue.severity,
+    title: rule?.title ?? issue.issueType,
+    description: issue.explanation,
+    recommendedFix: issue.recommendedFix,
+    pageUrl: issue.pageUrl ?? null,
+    occurrences: issue.occurrences,
+    fingerprint: issue.fingerprint,
   };
+}
+
+function computeScores(pages: CrawledPage[], analysis: { issues: { issueType: string; severity: string }[]; meta: { totalIssues: number } }) {
+  let meta = 100, content = 100, performance = 100, technical = 100;
 
   const categoryScores: Record<string, number> = { meta: 100, content: 100, performance: 100, technical: 100 };
   for (const issue of analysis.issues) {
-    const penalty = penalties[issue.issueType];
-    if (penalty) {
-      categoryScores[penalty.category] = Math.max(0, categoryScores[penalty.category] - penalty.amount);
+    const rule = getRule(issue.issueType);
+    if (rule && rule.penalty > 0) {
+      categoryScores[rule.category] = Math.max(0, categoryScores[rule.category] - rule.penalty);
     }
   }
 
+  // Performance is scored from lab measurements; the performance rules only explain the score.
+  const measured = pages
+    .map((p) => (p.performance ? scorePagePerformance(p.performance) : null))
+    .filter((s): s is number => s !== null);
+  if (measured.length > 0) {
+    categoryScores.performance = Math.round(measured.reduce((a, b) => a + b, 0) / measured.length);
+  }
+
   meta = categoryScores.meta;
   content = categoryScores.content;
   performance = categoryScores.performance;
@@ -167,22 +370,71 @@ function buildContentDetails(pages: CrawledPage[]) {
   };
 }
 
-function buildPerformanceDetails(pages: CrawledPage[]) {
+function buildMobileDetail(pages: CrawledPage[], mobileEnabled: boolean): string {
+  if (!mobileEnabled) return "Mobile rendering pass not enabled for this audit";
+  const tested = pages.filter((p) => p.mobile !== null);
+  if (tested.length === 0) return "No mobile measurements could be collected";
+  const noViewport = tested.filter((p) => !p.mobile!.hasDeviceWidthViewport).length;
+  const overflow = tested.filter((p) => p.mobile!.horizontalOverflow).length;
+  const smallText = tested.filter((p) => p.mobile!.smallTextElements > 0).length;
+  const tapTargets = tested.filter((p) => p.mobile!.overlappingTapTargets.length > 0).length;
+  return `${tested.length} pages rendered on a mobile device: ${noViewport} without a responsive viewport, ${overflow} scroll horizontally, ${smallText} with text under 12px, ${tapTargets} with overlapping tap targets`;
+}
+
+function buildPerformanceDetails(pages: CrawledPage[], mobileEnabled: boolean) {
   const totalImages = pages.reduce((s, p) => s + p.images.length, 0);
-  const missingAlt = pages.reduce((s, p) => s + p.images.filter((i) => !i.alt).length, 0);
+  const measured = pages.map((p) => p.performance).filter((m): m is NonNullable<typeof m> => m !== null);
+  const median = (values: Array<number | null>) => {
+    const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+    return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : null;
+  };
+  if (measured.length === 0) {
+    return {
+      images: `${totalImages} images found`,
+      vitals: "No performance measurements could be collected",
+      mobile: buildMobileDetail(pages, mobileEnabled),
+    };
+  }
+  const lcp = median(measured.map((m) => m.lcpMs));
+  const cls = median(measured.map((m) => m.cls));
+  const tbt = median(measured.map((m) => m.tbtMs));
+  const weight = median(measured.map((m) => m.transferBytes));
+  const requests = median(measured.map((m) => m.requestCount));
+  const heavyImages = measured.reduce((s, m) => s + m.images.length, 0);
+  const blocking = measured.reduce((s, m) => s + m.renderBlocking.length, 0);
   return {
-    images: `${totalImages} images found, ${missingAlt} missing alt text`,
-    links: `Average ${pages.length > 0 ? Math.round(pages.reduce((s, p) => s + p.internalLinks, 0) / pages.length) : 0} internal links per page`,
-    mobile: "Requires manual testing with Google Mobile-Friendly Test",
+    vitals: `Median LCP ${lcp !== null ? `${(lcp / 1000).toFixed(1)}s` : "n/a"}, CLS ${cls ?? "n/a"}, TBT ${tbt !== null ? `${tbt}ms` : "n/a"} (lab measurement, ${measured.length} pages)`,
+    pageWeight: `Median transfer size ${weight !== null ? `${Math.round(weight / 1024)} KB` : "n/a"} across ${requests ?? 0} requests`,
+    renderBlocking: `${blocking} render-blocking resources across all pages`,
+    images: `${totalImages} images found, ${heavyImages} oversized or uncompressed`,
+    mobile: buildMobileDetail(pages, mobileEnabled),
   };
 }
 
-function buildTechnicalDetails(pages: CrawledPage[]) {
+function buildTechnicalDetails(crawlData: CrawlResult) {
+  const { pages, sitemap } = crawlData;
   const withSchema = pages.filter((p) => p.schemaScripts.length > 0).length;
   const httpsCount = pages.filter((p) => p.url.startsWith("https://")).length;
+  const statusCounts = new Map<string, number>();
+  for (const p of pages) {
+    const bucket = p.httpStatus ? `${Math.floor(p.httpStatus / 100)}xx` : "unknown";
+    statusCounts.set(bucket, (statusCounts.get(bucket) ?? 0) + 1);
+  }
+  const redirected = pages.filter((p) => p.redirectChain.length > 0).length;
+  const noindexed = pages.filter((p) => p.robots.noindex).length;
+  let sitemapDetail = "Sitemap discovery disabled for this audit";
+  if (sitemap) {
+    sitemapDetail = sitemap.sitemaps.length > 0
+      ? `${sitemap.totalUrls} URLs in ${sitemap.sitemaps.length} sitemap(s); ${sitemap.unlinkedUrls.length} crawled but not linked internally, ${sitemap.notCrawledUrls.length} not crawled, ${sitemap.missingFromSitemap.length} crawled pages missing from sitemap`
+      : "No XML sitemap found";
+  }
   return {
     schema: `${withSchema}/${pages.length} pages have structured data`,
     https: `${httpsCount}/${pages.length} pages use HTTPS`,
+    statusCodes: Array.from(statusCounts.entries()).map(([k, v]) => `${v} ${k}`).join(", ") || "No pages crawled",
+    redirects: `${redirected}/${pages.length} pages reached through redirects, ${crawlData.redirectLoops.length} redirect loops`,
+    indexability: `${pages.length - noindexed}/${pages.length} pages indexable, ${crawlData.robotsBlocked.length} linked URLs blocked by robots.txt${crawlData.crawlDelayMs > 0 ? `, crawl-delay ${crawlData.crawlDelayMs / 1000}s honored` : ""}`,
+    sitemap: sitemapDetail,
     urlStructure: "URLs analyzed for crawlability and structure",
   };
 }
@@ -193,22 +445,63 @@ function buildSummary(crawlData: any, ruleAnalysis: any, scores: any): string {
 }
 
 async function tick(): Promise<void> {
-  while (runningCount < CONCURRENCY) {
-    const job = dequeueJob();
-    if (!job) break;
-    runningCount++;
-    processJob(job)
-      .finally(() => {
-        runningCount--;
-        tick();
-      });
+  if (claiming || stopping) return;
+  claiming = true;
+  try {
+    while (runningCount < CONCURRENCY) {
+      const job = await claimJob();
+      if (!job) break;
+      runningCount++;
+      processJob(job)
+        .finally(() => {
+          runningCount--;
+          tick();
+        });
+    }
+  } catch (err: any) {
+    console.error("[Worker] Failed to claim a job:", err.message);
+  } finally {
+    claiming = false;
+  }
+}
+
+async function recover(): Promise<void> {
+  try {
+    await recoverStaleJobs();
+  } catch (err: any) {
+    console.error("[Worker] Stale job recovery failed:", err.message);
   }
 }
 
 export function startWorker(): void {
   if (workerStarted) return;
   workerStarted = true;
-  console.log("[Worker] Started with concurrency:", CONCURRENCY);
+  console.log(`[Worker] ${workerId} started with concurrency:`, CONCURRENCY);
   setOnJobReady(() => tick());
-  tick();
+  setOnCancelRequested((auditId) => runningJobs.get(auditId)?.abort(new AuditCancelledError()));
+  timers = [setInterval(tick, POLL_INTERVAL_MS), setInterval(recover, LEASE_TIMEOUT_MS / 2)];
+  requeueAuditsWithoutJob()
+    .catch((err) => console.error("[Worker] Requeueing audits without a job failed:", err.message))
+    .then(recover)
+    .then(tick);
+}
+
+/**
+ * Stops claiming new jobs and resolves once running jobs finish or `timeoutMs` passes.
+ * Jobs still running at that point are picked up again once their lease expires.
+ */
+export async function stopWorker(timeoutMs: number): Promise<void> {
+  stopping = true;
+  setOnJobReady(null);
+  setOnCancelRequested(null);
+  timers.forEach(clearInterval);
+  timers = [];
+
+  const deadline = Date.now() + timeoutMs;
+  while (runningCount > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  if (runningCount > 0) {
+    console.warn(`[Worker] Stopping with ${runningCount} job(s) still running; they will be retried after the lease expires`);
+  }
 }
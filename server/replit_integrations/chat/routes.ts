@@ -1,11 +1,12 @@
 import type { Express, Request, Response } from "express";
-import OpenAI from "openai";
 import { chatStorage } from "./storage";
+import { getLlmProvider, registerLlmTemplate } from "../../lib/llm";
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+const CHAT_TASK = "chat";
+// Chat has always used this model; LLM_CHAT_MODEL overrides it, e.g. for a self-hosted endpoint.
+const DEFAULT_CHAT_MODEL = "gpt-5.1";
+
+registerLlmTemplate(CHAT_TASK, () => "The assistant is running in offline mode, so it can't answer questions right now.");
 
 export function registerChatRoutes(app: Express): void {
   // Get all conversations
@@ -80,22 +81,19 @@ export function registerChatRoutes(app: Express): void {
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
-      // Stream response from OpenAI
-      const stream = await openai.chat.completions.create({
-        model: "gpt-5.1",
+      // Stream response from the configured LLM provider
+      const stream = getLlmProvider().stream({
+        task: CHAT_TASK,
         messages: chatMessages,
-        stream: true,
-        max_completion_tokens: 8192,
+        model: process.env.LLM_CHAT_MODEL || DEFAULT_CHAT_MODEL,
+        maxTokens: 8192,
       });
 
       let fullResponse = "";
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-          fullResponse += content;
-          res.write(`data: ${JSON.stringify({ content })}\n\n`);
-        }
+      for await (const content of stream) {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ content })}\n\n`);
       }
 
       // Save assistant message
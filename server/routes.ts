@@ -2,9 +2,24 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./replit_integrations/auth";
-import { extractDomain } from "./seo-analyzer";
-import { enqueueAudit, getJobProgress } from "./lib/queue";
-import { startWorker } from "./lib/worker";
+import { cancelJob, enqueueAudit, getJobProgress, getQueuePosition, getWorkerMode } from "./lib/queue";
+import { isSchedulerEnabled, nextScheduledRun, normalizeScheduleTiming, startScheduler } from "./lib/scheduler";
+import { getBlobStore } from "./lib/blobStore";
+import { getRuleInfo, normalizeRuleSettings } from "./lib/rules";
+import { compareAudits } from "./lib/compare";
+import { assignUnassignedAudits } from "./lib/projects";
+import { extractDomain } from "./lib/urls";
+import { AuditRequestError, createChargedAudit } from "./lib/audits";
+import {
+  auditConfigSchema,
+  getPlanLimits,
+  insertAuditScheduleSchema,
+  insertProjectSchema,
+  scheduleStatuses,
+  insertRuleProfileSchema,
+  suppressionScopes,
+  type AuditEventRecord,
+} from "@shared/schema";
 import { z } from "zod";
 
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
@@ -49,7 +64,12 @@ export async function registerRoutes(
 ): Promise<Server> {
   await setupAuth(app);
   registerAuthRoutes(app);
-  startWorker();
+  if (getWorkerMode() === "inline") {
+    // Loaded on demand so web processes in external mode never load the crawler and its browser.
+    const { startWorker } = await import("./lib/worker");
+    startWorker();
+    if (isSchedulerEnabled()) startScheduler();
+  }
 
   async function checkNotSuspended(req: any, res: Response, next: NextFunction) {
     try {
@@ -65,6 +85,284 @@ export async function registerRoutes(
     }
   }
 
+  app.get("/api/rules", isAuthenticated, (_req, res) => {
+    res.json(getRuleInfo());
+  });
+
+  app.get("/api/projects", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await assignUnassignedAudits(userId);
+      const [projectList, audits] = await Promise.all([
+        storage.getProjectsByUser(userId),
+        storage.getAuditsByUser(userId),
+      ]);
+      res.json(
+        projectList.map((project) => {
+          const projectAudits = audits.filter((a) => a.projectId === project.id);
+          const latest = projectAudits.find((a) => a.status === "completed");
+          return {
+            ...project,
+            auditCount: projectAudits.length,
+            latestAudit: latest
+              ? { id: latest.id, overallScore: latest.overallScore, createdAt: latest.createdAt }
+              : null,
+          };
+        })
+      );
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  app.post("/api/projects", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertProjectSchema.omit({ userId: true, domain: true }).parse(req.body);
+      if (parsed.ruleProfileId) {
+        const ruleProfile = await storage.getRuleProfile(parsed.ruleProfileId);
+        if (!ruleProfile || ruleProfile.userId !== userId) {
+          return res.status(400).json({ message: "Rule profile not found" });
+        }
+      }
+      const project = await storage.createProject({ ...parsed, userId, domain: extractDomain(parsed.rootUrl) });
+      res.status(201).json(project);
+    } catch (error: any) {
+      console.error("Error creating project:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid project" });
+      }
+      res.status(500).json({ message: "Failed to create project" });
+    }
+  });
+
+  app.get("/api/projects/:id", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project || project.userId !== userId) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  app.put("/api/projects/:id", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const existing = await storage.getProject(id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const parsed = insertProjectSchema.omit({ userId: true, domain: true }).parse(req.body);
+      if (parsed.ruleProfileId) {
+        const ruleProfile = await storage.getRuleProfile(parsed.ruleProfileId);
+        if (!ruleProfile || ruleProfile.userId !== userId) {
+          return res.status(400).json({ message: "Rule profile not found" });
+        }
+      }
+      const project = await storage.updateProject(id, { ...parsed, domain: extractDomain(parsed.rootUrl) });
+      res.json(project);
+    } catch (error: any) {
+      console.error("Error updating project:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid project" });
+      }
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  app.get("/api/projects/:id/audits", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project || project.userId !== userId) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const audits = await storage.getAuditsByProject(project.id);
+      res.json(audits);
+    } catch (error) {
+      console.error("Error fetching project audits:", error);
+      res.status(500).json({ message: "Failed to fetch project audits" });
+    }
+  });
+
+  const schedulingNotIncluded = "Scheduled audits are not included in your plan. Please upgrade to Pro.";
+
+  async function planAllowsScheduling(userId: string): Promise<boolean> {
+    const profile = await storage.ensureProfile(userId);
+    return getPlanLimits(profile.plan).scheduling;
+  }
+
+  const scheduleBodySchema = insertAuditScheduleSchema.omit({ userId: true, projectId: true, nextRunAt: true });
+
+  app.get("/api/projects/:id/schedules", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project || project.userId !== userId) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const schedules = await storage.getSchedulesByProject(project.id);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching schedules:", error);
+      res.status(500).json({ message: "Failed to fetch schedules" });
+    }
+  });
+
+  app.post("/api/projects/:id/schedules", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project || project.userId !== userId) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!(await planAllowsScheduling(userId))) {
+        return res.status(403).json({ message: schedulingNotIncluded });
+      }
+      const parsed = scheduleBodySchema.parse(req.body);
+      let timing;
+      try {
+        timing = normalizeScheduleTiming(parsed);
+      } catch (err: any) {
+        return res.status(400).json({ message: err.message });
+      }
+      const schedule = await storage.createAuditSchedule({
+        ...timing,
+        userId,
+        projectId: project.id,
+        nextRunAt: nextScheduledRun(timing),
+      });
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      console.error("Error creating schedule:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid schedule" });
+      }
+      res.status(500).json({ message: "Failed to create schedule" });
+    }
+  });
+
+  app.put("/api/schedules/:id", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAuditSchedule(id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      const parsed = scheduleBodySchema.extend({ status: z.enum(scheduleStatuses) }).parse(req.body);
+      if (parsed.status === "active" && !(await planAllowsScheduling(userId))) {
+        return res.status(403).json({ message: schedulingNotIncluded });
+      }
+      let timing;
+      try {
+        timing = normalizeScheduleTiming(parsed);
+      } catch (err: any) {
+        return res.status(400).json({ message: err.message });
+      }
+      // Resuming clears the pause reason and failure count so the schedule gets a fresh start.
+      const resumed = parsed.status === "active" && existing.status === "paused";
+      const schedule = await storage.updateAuditSchedule(id, {
+        ...timing,
+        status: parsed.status,
+        nextRunAt: nextScheduledRun(timing),
+        ...(resumed ? { pausedReason: null, consecutiveFailures: 0 } : {}),
+      });
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Error updating schedule:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid schedule" });
+      }
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  app.delete("/api/schedules/:id", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAuditSchedule(id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      await storage.deleteAuditSchedule(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      res.status(500).json({ message: "Failed to delete schedule" });
+    }
+  });
+
+  app.get("/api/rule-profiles", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const profiles = await storage.getRuleProfilesByUser(userId);
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching rule profiles:", error);
+      res.status(500).json({ message: "Failed to fetch rule profiles" });
+    }
+  });
+
+  app.post("/api/rule-profiles", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertRuleProfileSchema.omit({ userId: true }).parse(req.body);
+      const profile = await storage.createRuleProfile({ userId, name: parsed.name, rules: normalizeRuleSettings(parsed.rules) });
+      res.status(201).json(profile);
+    } catch (error: any) {
+      console.error("Error creating rule profile:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid rule profile" });
+      }
+      res.status(500).json({ message: "Failed to create rule profile" });
+    }
+  });
+
+  app.put("/api/rule-profiles/:id", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const existing = await storage.getRuleProfile(id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Rule profile not found" });
+      }
+      const parsed = insertRuleProfileSchema.omit({ userId: true }).parse(req.body);
+      const profile = await storage.updateRuleProfile(id, { name: parsed.name, rules: normalizeRuleSettings(parsed.rules) });
+      res.json(profile);
+    } catch (error: any) {
+      console.error("Error updating rule profile:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid rule profile" });
+      }
+      res.status(500).json({ message: "Failed to update rule profile" });
+    }
+  });
+
+  app.delete("/api/rule-profiles/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const existing = await storage.getRuleProfile(id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Rule profile not found" });
+      }
+      await storage.deleteRuleProfile(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting rule profile:", error);
+      res.status(500).json({ message: "Failed to delete rule profile" });
+    }
+  });
+
   app.get("/api/profile", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -118,37 +416,188 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/audits", isAuthenticated, checkNotSuspended, rateLimit(10, 60 * 1000), async (req: any, res) => {
+  app.get("/api/audits/:id/pages/:pageId/screenshot", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const profile = await storage.ensureProfile(userId);
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      const page = await storage.getAuditPage(id, parseInt(req.params.pageId));
+      const variant = req.query.variant === "mobile" ? "mobile" : "desktop";
+      const screenshot = page?.screenshots?.[variant];
+      if (!screenshot) {
+        return res.status(404).json({ message: "Screenshot not found" });
+      }
+      const blob = await getBlobStore().get(screenshot.key);
+      if (!blob) {
+        return res.status(404).json({ message: "Screenshot not found" });
+      }
+      res.set("Content-Type", blob.contentType);
+      res.set("Cache-Control", "private, max-age=86400");
+      res.send(blob.data);
+    } catch (error) {
+      console.error("Error fetching page screenshot:", error);
+      res.status(500).json({ message: "Failed to fetch screenshot" });
+    }
+  });
+
+  app.get("/api/audits/:id/links", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      const links = await storage.getAuditLinks(id, req.query.broken === "true");
+      res.json(links);
+    } catch (error) {
+      console.error("Error fetching audit links:", error);
+      res.status(500).json({ message: "Failed to fetch audit links" });
+    }
+  });
+
+  app.get("/api/audits/:id/link-graph", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      const edges = await storage.getAuditLinkEdges(id);
+      res.json(edges);
+    } catch (error) {
+      console.error("Error fetching link graph:", error);
+      res.status(500).json({ message: "Failed to fetch link graph" });
+    }
+  });
 
-      if (profile.credits < 1) {
-        return res.status(400).json({ message: "Not enough credits. Please upgrade your plan." });
+  app.get("/api/audits/:id/compare/:otherId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [target, base] = await Promise.all([
+        storage.getAudit(parseInt(req.params.id)),
+        storage.getAudit(parseInt(req.params.otherId)),
+      ]);
+      if (!target || target.userId !== userId || !base || base.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      if (target.status !== "completed" || base.status !== "completed") {
+        return res.status(400).json({ message: "Both audits must be completed to compare them" });
       }
+      const [targetPages, basePages] = await Promise.all([
+        storage.getAuditPages(target.id),
+        storage.getAuditPages(base.id),
+      ]);
+      res.json(compareAudits(base, target, basePages, targetPages));
+    } catch (error) {
+      console.error("Error comparing audits:", error);
+      res.status(500).json({ message: "Failed to compare audits" });
+    }
+  });
 
-      const schema = z.object({ url: z.string().url() });
-      const { url } = schema.parse(req.body);
-      const domain = extractDomain(url);
+  app.get("/api/audits/:id/suppressions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      const suppressions = audit.domain ? await storage.getIssueSuppressions(userId, audit.domain) : [];
+      res.json(suppressions);
+    } catch (error) {
+      console.error("Error fetching suppressions:", error);
+      res.status(500).json({ message: "Failed to fetch suppressions" });
+    }
+  });
 
-      const audit = await storage.createAudit({ userId, url, domain });
+  app.post("/api/audits/:id/suppressions", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId || !audit.domain) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
 
-      await storage.updateProfileCredits(userId, profile.credits - 1);
-      await storage.createCreditTransaction({
+      const schema = z.object({
+        fingerprint: z.string().min(1).max(64),
+        scope: z.enum(suppressionScopes),
+        urlPattern: z.string().trim().min(1).max(200).optional(),
+        reason: z.string().trim().min(1).max(500),
+      });
+      const parsed = schema.parse(req.body);
+      if (parsed.scope === "pattern" && !parsed.urlPattern) {
+        return res.status(400).json({ message: "A URL pattern is required" });
+      }
+
+      const issues: { issueType: string; fingerprint?: string }[] = (audit.results as any)?.issues ?? [];
+      const issue = issues.find((i) => i.fingerprint === parsed.fingerprint);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found in this audit" });
+      }
+
+      const suppression = await storage.createIssueSuppression({
         userId,
-        amount: -1,
-        type: "debit",
-        description: `SEO audit: ${url}`,
-        auditId: audit.id,
+        domain: audit.domain,
+        issueType: issue.issueType,
+        scope: parsed.scope,
+        fingerprint: parsed.scope === "url" ? parsed.fingerprint : null,
+        urlPattern: parsed.scope === "pattern" ? parsed.urlPattern : null,
+        reason: parsed.reason,
+      });
+      res.status(201).json(suppression);
+    } catch (error: any) {
+      console.error("Error creating suppression:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid suppression" });
+      }
+      res.status(500).json({ message: "Failed to create suppression" });
+    }
+  });
+
+  app.delete("/api/suppressions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const suppression = await storage.getIssueSuppression(id);
+      if (!suppression || suppression.userId !== userId) {
+        return res.status(404).json({ message: "Suppression not found" });
+      }
+      await storage.deleteIssueSuppression(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting suppression:", error);
+      res.status(500).json({ message: "Failed to delete suppression" });
+    }
+  });
+
+  app.post("/api/audits", isAuthenticated, checkNotSuspended, rateLimit(10, 60 * 1000), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const schema = z.object({
+        url: z.string().url(),
+        config: auditConfigSchema.partial().optional(),
+        ruleProfileId: z.number().int().positive().nullable().optional(),
+        projectId: z.number().int().positive().optional(),
       });
+      const parsed = schema.parse(req.body);
 
+      const { audit, job } = await createChargedAudit(userId, parsed);
+      await enqueueAudit(job);
       res.status(201).json(audit);
-
-      enqueueAudit({ auditId: audit.id, userId, url, domain });
     } catch (error: any) {
       console.error("Error creating audit:", error);
+      if (error instanceof AuditRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
       if (error.name === "ZodError") {
-        return res.status(400).json({ message: "Invalid URL provided" });
+        const invalidConfig = error.issues?.some((i: any) => i.path[0] === "config");
+        return res.status(400).json({ message: invalidConfig ? "Invalid audit options provided" : "Invalid URL provided" });
       }
       res.status(500).json({ message: "Failed to create audit" });
     }
@@ -162,14 +611,133 @@ export async function registerRoutes(
       if (!audit || audit.userId !== userId) {
         return res.status(404).json({ message: "Audit not found" });
       }
-      const progress = getJobProgress(id);
-      res.json({ status: audit.status, progress });
+      const [progress, queuePosition] = await Promise.all([getJobProgress(id), getQueuePosition(id)]);
+      res.json({ status: audit.status, progress, queuePosition });
     } catch (error) {
       console.error("Error fetching audit progress:", error);
       res.status(500).json({ message: "Failed to fetch audit progress" });
     }
   });
 
+  // Server-Sent Events stream of an audit's progress. Events are read back from audit_events, so this
+  // works whichever process runs the job; reconnecting clients resume from Last-Event-ID.
+  app.get("/api/audits/:id/events", isAuthenticated, async (req: any, res) => {
+    const id = parseInt(req.params.id);
+    try {
+      const userId = req.user.claims.sub;
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+    } catch (error) {
+      console.error("Error opening audit event stream:", error);
+      return res.status(500).json({ message: "Failed to open audit event stream" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    let lastId = parseInt(String(req.headers["last-event-id"] ?? req.query.after ?? "0")) || 0;
+    let closed = false;
+    let polling = false;
+    let idleTicks = 0;
+
+    const send = (events: AuditEventRecord[]) => {
+      for (const event of events) {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        lastId = event.id;
+      }
+    };
+
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(timer);
+      res.end();
+    };
+
+    const poll = async () => {
+      if (closed || polling) return;
+      polling = true;
+      try {
+        const events = await storage.getAuditEvents(id, lastId);
+        send(events);
+        if (events.length > 0) {
+          idleTicks = 0;
+        } else if (++idleTicks % 15 === 0) {
+          res.write(": ping\n\n");
+        }
+
+        // Once the job is finished, flush whatever it emitted since the read above and close the stream.
+        const job = await storage.getAuditJob(id);
+        if (!job || (job.status !== "pending" && job.status !== "processing")) {
+          send(await storage.getAuditEvents(id, lastId));
+          res.write(`event: end\ndata: ${JSON.stringify({ status: job?.status ?? null })}\n\n`);
+          finish();
+        }
+      } catch (error) {
+        console.error("Error streaming audit events:", error);
+        finish();
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = setInterval(poll, 1000);
+    req.on("close", finish);
+    poll();
+  });
+
+  app.post("/api/audits/:id/cancel", isAuthenticated, checkNotSuspended, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const audit = await storage.getAudit(id);
+      if (!audit || audit.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      const result = await cancelJob(id, userId);
+      if (!result) {
+        return res.status(400).json({ message: "Only queued or running audits can be cancelled" });
+      }
+      res.json({ status: result });
+    } catch (error) {
+      console.error("Error cancelling audit:", error);
+      res.status(500).json({ message: "Failed to cancel audit" });
+    }
+  });
+
+  app.post("/api/audits/:id/rerun", isAuthenticated, checkNotSuspended, rateLimit(10, 60 * 1000), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const original = await storage.getAudit(parseInt(req.params.id));
+      if (!original || original.userId !== userId) {
+        return res.status(404).json({ message: "Audit not found" });
+      }
+      // Keep the original rule profile if it still exists; otherwise fall back to the default rules.
+      const ruleProfile = original.ruleProfile ? await storage.getRuleProfile(original.ruleProfile.id) : undefined;
+      const { audit, job } = await createChargedAudit(userId, {
+        url: original.url,
+        config: original.config ?? undefined,
+        projectId: original.projectId ?? undefined,
+        ruleProfileId: ruleProfile && ruleProfile.userId === userId ? ruleProfile.id : null,
+      });
+      await enqueueAudit(job);
+      res.status(201).json(audit);
+    } catch (error: any) {
+      console.error("Error re-running audit:", error);
+      if (error instanceof AuditRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to re-run audit" });
+    }
+  });
+
   app.get("/api/credits/history", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -190,6 +758,8 @@ export async function registerRoutes(
       const scores = completedAudits.map((a) => a.overallScore ?? 0).filter((s) => s > 0);
       const avgScore = scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
       const totalCreditsUsed = allProfiles.reduce((sum, p) => sum + (p.totalAudits ?? 0), 0);
+      const totalAiTokens = allAudits.reduce((sum, a) => sum + (a.aiPromptTokens ?? 0) + (a.aiCompletionTokens ?? 0), 0);
+      const totalAiCostUsd = allAudits.reduce((sum, a) => sum + (a.aiCostUsd ?? 0), 0);
 
       res.json({
         totalUsers: allUsers.length,
@@ -197,6 +767,8 @@ export async function registerRoutes(
         completedAudits: completedAudits.length,
         avgScore,
         totalCreditsUsed,
+        totalAiTokens,
+        totalAiCostUsd,
       });
     } catch (error) {
       console.error("Error fetching admin stats:", error);
@@ -1,10 +1,9 @@
-import OpenAI from "openai";
 import { crawlDomain, type CrawlResult, type CrawledPage } from "./lib/crawler";
+import { analyzeRules, type RuleAnalysisResult, type SeoIssue } from "./lib/analyzer";
+import { getRule } from "./lib/rules";
+import { getLlmProvider, registerLlmTemplate } from "./lib/llm";
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+const ANALYSIS_TASK = "seo-analysis";
 
 interface SeoAnalysisResult {
   overallScore: number;
@@ -44,16 +43,13 @@ interface SeoAnalysisResult {
   };
 }
 
-export function extractDomain(url: string): string {
-  try {
-    const parsed = new URL(url);
-    return parsed.hostname;
-  } catch {
-    return url;
-  }
+function pageIssues(issues: SeoIssue[], pageUrl: string) {
+  return issues
+    .filter((i) => i.pageUrl === pageUrl)
+    .map((i) => ({ severity: i.severity, title: getRule(i.issueType)?.title ?? i.issueType, description: i.explanation }));
 }
 
-function summarizeCrawlForPrompt(crawlData: CrawlResult): string {
+function summarizeCrawlForPrompt(crawlData: CrawlResult, issues: SeoIssue[]): string {
   const lines: string[] = [];
   lines.push(`Domain: ${crawlData.domain}`);
   lines.push(`Pages crawled: ${crawlData.pagesCrawled}`);
@@ -73,8 +69,9 @@ function summarizeCrawlForPrompt(crawlData: CrawlResult): string {
     lines.push(`Images: ${page.images.length}, Without alt: ${page.images.filter((i) => !i.alt).length}`);
     lines.push(`Canonical: ${page.canonical || "(not set)"}`);
     lines.push(`Schema markup: ${page.schemaScripts.length > 0 ? JSON.stringify(page.schemaScripts.map((s) => s["@type"] || "unknown")) : "(none)"}`);
-    if (page.issues.length > 0) {
-      lines.push(`On-page issues: ${page.issues.map((i) => `[${i.severity}] ${i.title}`).join("; ")}`);
+    const onPage = pageIssues(issues, page.url);
+    if (onPage.length > 0) {
+      lines.push(`On-page issues: ${onPage.map((i) => `[${i.severity}] ${i.title}`).join("; ")}`);
     }
     lines.push("");
   }
@@ -82,12 +79,43 @@ function summarizeCrawlForPrompt(crawlData: CrawlResult): string {
   return lines.join("\n");
 }
 
+// Offline analysis: category scores from rule penalties and the rule findings as the issue list.
+registerLlmTemplate(ANALYSIS_TASK, (context) => {
+  const { crawlData, ruleAnalysis } = context as { crawlData: CrawlResult; ruleAnalysis: RuleAnalysisResult };
+  const scores: Record<string, number> = { meta: 100, content: 100, performance: 100, technical: 100 };
+  for (const issue of ruleAnalysis.issues) {
+    const rule = getRule(issue.issueType);
+    if (rule && rule.penalty > 0) scores[rule.category] = Math.max(0, scores[rule.category] - rule.penalty);
+  }
+  const overallScore = Math.round((scores.meta + scores.content + scores.performance + scores.technical) / 4);
+  const { critical, warnings, info, totalIssues } = ruleAnalysis.meta;
+
+  return JSON.stringify({
+    overallScore,
+    metaScore: scores.meta,
+    contentScore: scores.content,
+    performanceScore: scores.performance,
+    technicalScore: scores.technical,
+    summary: `Crawled ${crawlData.pagesCrawled} pages on ${crawlData.domain} and found ${totalIssues} issues (${critical} critical, ${warnings} warnings, ${info} informational). Overall score: ${overallScore}/100.`,
+    results: {
+      issues: ruleAnalysis.issues.map((i) => ({
+        severity: i.severity,
+        title: getRule(i.issueType)?.title ?? i.issueType,
+        description: i.explanation,
+      })),
+      recommendations: Array.from(new Set(ruleAnalysis.issues.filter((i) => i.severity !== "info").map((i) => i.recommendedFix))),
+      details: { meta: {}, content: {}, performance: {}, technical: {} },
+    },
+  });
+});
+
 export async function analyzeSeo(url: string): Promise<SeoAnalysisResult> {
   console.log(`[SEO Analyzer] Starting crawl for ${url}`);
   const crawlData = await crawlDomain(url);
   console.log(`[SEO Analyzer] Crawl complete: ${crawlData.pagesCrawled} pages`);
 
-  const crawlSummary = summarizeCrawlForPrompt(crawlData);
+  const ruleAnalysis = analyzeRules(crawlData);
+  const crawlSummary = summarizeCrawlForPrompt(crawlData, ruleAnalysis.issues);
 
   const prompt = `You are an expert SEO analyst. I have crawled a website and extracted the following data. Analyze it and provide a comprehensive SEO audit.
 
@@ -131,15 +159,15 @@ Return a JSON object with this exact structure:
 
 Base your scores and issues on the actual crawl data above. Be specific. Return ONLY valid JSON.`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-5-mini",
+  const response = await getLlmProvider().complete({
+    task: ANALYSIS_TASK,
     messages: [{ role: "user", content: prompt }],
-    max_completion_tokens: 8192,
-    response_format: { type: "json_object" },
+    json: true,
+    maxTokens: 8192,
+    context: { crawlData, ruleAnalysis },
   });
 
-  const content = response.choices[0]?.message?.content || "{}";
-  const parsed = JSON.parse(content);
+  const parsed = JSON.parse(response.content);
 
   const clamp = (v: number) => Math.min(100, Math.max(0, Math.round(v ?? 50)));
   parsed.overallScore = clamp(parsed.overallScore);
@@ -148,8 +176,7 @@ Base your scores and issues on the actual crawl data above. Be specific. Return
   parsed.performanceScore = clamp(parsed.performanceScore);
   parsed.technicalScore = clamp(parsed.technicalScore);
 
-  const allIssues = crawlData.pages.flatMap((p) => p.issues);
-  parsed.issuesFound = (parsed.results?.issues?.length ?? 0) + allIssues.length;
+  parsed.issuesFound = (parsed.results?.issues?.length ?? 0) + ruleAnalysis.issues.length;
   parsed.fixesGenerated = parsed.results?.recommendations?.length ?? 0;
 
   parsed.crawlData = crawlData;
@@ -163,7 +190,7 @@ Base your scores and issues on the actual crawl data above. Be specific. Return
     externalLinks: p.externalLinks,
     images: p.images.length,
     schemaDetected: p.schemaScripts.map((s: any) => s["@type"] || "unknown"),
-    issues: p.issues,
+    issues: pageIssues(ruleAnalysis.issues, p.url),
   }));
 
   return parsed as SeoAnalysisResult;
@@ -8,15 +8,55 @@ import {
   auditPages,
   type AuditPage,
   type InsertAuditPage,
+  auditLinks,
+  type AuditLink,
+  type InsertAuditLink,
+  auditLinkEdges,
+  type AuditLinkEdge,
+  type InsertAuditLinkEdge,
   creditTransactions,
   type CreditTransaction,
   type InsertCreditTransaction,
   userProfiles,
   type UserProfile,
   type InsertUserProfile,
+  ruleProfiles,
+  type RuleProfile,
+  type InsertRuleProfile,
+  projects,
+  type Project,
+  type InsertProject,
+  issueSuppressions,
+  type IssueSuppression,
+  type InsertIssueSuppression,
+  auditJobs,
+  type AuditJobRecord,
+  auditEvents,
+  aiFixCache,
+  type AiFixCacheEntry,
+  type InsertAiFixCacheEntry,
+  type AuditEvent,
+  type AuditEventRecord,
+  type InsertAuditJob,
+  auditSchedules,
+  type AuditSchedule,
+  type InsertAuditSchedule,
+  blobs,
+  type Blob,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, asc, gt, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+
+// Arbitrary key for the advisory lock that serializes audit job claims.
+const CLAIM_LOCK_KEY = 71_460_001;
+
+/** Everything a finished audit run writes, saved together by `saveAuditResults`. */
+export interface AuditResultRecords {
+  pages: InsertAuditPage[];
+  edges: InsertAuditLinkEdge[];
+  links: InsertAuditLink[];
+  audit: Partial<SeoAudit>;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -35,11 +75,57 @@ export interface IStorage {
   createAuditPage(page: InsertAuditPage): Promise<AuditPage>;
   createAuditPages(pages: InsertAuditPage[]): Promise<AuditPage[]>;
   getAuditPages(auditId: number): Promise<AuditPage[]>;
+  getAuditPage(auditId: number, pageId: number): Promise<AuditPage | undefined>;
+  getAuditLinks(auditId: number, brokenOnly?: boolean): Promise<AuditLink[]>;
+  getAuditLinkEdges(auditId: number): Promise<AuditLinkEdge[]>;
+  saveAuditResults(auditId: number, workerId: string, results: AuditResultRecords): Promise<boolean>;
   createCreditTransaction(tx: InsertCreditTransaction): Promise<CreditTransaction>;
   getCreditHistory(userId: string): Promise<CreditTransaction[]>;
   getAllUsers(): Promise<User[]>;
   getAllProfiles(): Promise<UserProfile[]>;
   getAllAudits(): Promise<SeoAudit[]>;
+  getProjectsByUser(userId: string): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  findProjectByDomain(userId: string, domain: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined>;
+  getAuditsByProject(projectId: number): Promise<SeoAudit[]>;
+  getUnassignedAudits(userId: string): Promise<SeoAudit[]>;
+  getRuleProfilesByUser(userId: string): Promise<RuleProfile[]>;
+  getRuleProfile(id: number): Promise<RuleProfile | undefined>;
+  createRuleProfile(profile: InsertRuleProfile): Promise<RuleProfile>;
+  updateRuleProfile(id: number, data: Pick<InsertRuleProfile, "name" | "rules">): Promise<RuleProfile | undefined>;
+  deleteRuleProfile(id: number): Promise<void>;
+  getIssueSuppressions(userId: string, domain: string): Promise<IssueSuppression[]>;
+  getIssueSuppression(id: number): Promise<IssueSuppression | undefined>;
+  createIssueSuppression(suppression: InsertIssueSuppression): Promise<IssueSuppression>;
+  deleteIssueSuppression(id: number): Promise<void>;
+  createAuditJob(job: InsertAuditJob): Promise<AuditJobRecord>;
+  getAuditJob(auditId: number): Promise<AuditJobRecord | undefined>;
+  claimAuditJob(workerId: string): Promise<AuditJobRecord | undefined>;
+  getQueuePosition(auditId: number): Promise<number | null>;
+  updateAuditJob(auditId: number, data: Partial<AuditJobRecord>, workerId?: string, events?: AuditEvent[]): Promise<AuditJobRecord | undefined>;
+  heartbeatAuditJob(auditId: number, workerId: string): Promise<AuditJobRecord | undefined>;
+  cancelPendingAuditJob(auditId: number): Promise<AuditJobRecord | undefined>;
+  requestAuditJobCancel(auditId: number): Promise<AuditJobRecord | undefined>;
+  getAuditsWithoutJob(statuses: string[]): Promise<SeoAudit[]>;
+  getStaleAuditJobs(heartbeatBefore: Date): Promise<AuditJobRecord[]>;
+  recoverAuditJob(auditId: number, heartbeatBefore: Date, data: Partial<AuditJobRecord>): Promise<AuditJobRecord | undefined>;
+  createAuditEvent(auditId: number, event: AuditEvent): Promise<AuditEventRecord>;
+  getAuditEvents(auditId: number, afterId?: number): Promise<AuditEventRecord[]>;
+  getAiFixCacheEntries(inputHashes: string[], model: string, promptVersion: number): Promise<AiFixCacheEntry[]>;
+  saveAiFixCacheEntry(entry: InsertAiFixCacheEntry): Promise<void>;
+  getSchedulesByProject(projectId: number): Promise<AuditSchedule[]>;
+  getAuditSchedule(id: number): Promise<AuditSchedule | undefined>;
+  getDueSchedules(now: Date): Promise<AuditSchedule[]>;
+  claimDueSchedule(id: number, seenNextRunAt: Date, nextRunAt: Date): Promise<AuditSchedule | undefined>;
+  createAuditSchedule(schedule: InsertAuditSchedule): Promise<AuditSchedule>;
+  updateAuditSchedule(id: number, data: Partial<AuditSchedule>): Promise<AuditSchedule | undefined>;
+  deleteAuditSchedule(id: number): Promise<void>;
+  putBlob(key: string, data: Buffer, contentType: string): Promise<void>;
+  getBlob(key: string): Promise<Blob | undefined>;
+  getBlobKeys(prefix: string): Promise<string[]>;
+  deleteBlob(key: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -139,6 +225,50 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(auditPages).where(eq(auditPages.auditId, auditId));
   }
 
+  async getAuditPage(auditId: number, pageId: number): Promise<AuditPage | undefined> {
+    const [page] = await db.select().from(auditPages).where(and(eq(auditPages.auditId, auditId), eq(auditPages.id, pageId)));
+    return page;
+  }
+
+  async getAuditLinks(auditId: number, brokenOnly: boolean = false): Promise<AuditLink[]> {
+    const condition = brokenOnly
+      ? and(eq(auditLinks.auditId, auditId), eq(auditLinks.broken, true))
+      : eq(auditLinks.auditId, auditId);
+    return db.select().from(auditLinks).where(condition).orderBy(auditLinks.url);
+  }
+
+  async getAuditLinkEdges(auditId: number): Promise<AuditLinkEdge[]> {
+    return db.select().from(auditLinkEdges).where(eq(auditLinkEdges.auditId, auditId));
+  }
+
+  // Replaces rows left by an earlier attempt at the same audit, and only while `workerId` still
+  // holds its job: the row lock keeps stale-job recovery from handing it over mid-write.
+  async saveAuditResults(auditId: number, workerId: string, results: AuditResultRecords): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [held] = await tx
+        .select({ id: auditJobs.id })
+        .from(auditJobs)
+        .where(and(eq(auditJobs.auditId, auditId), eq(auditJobs.workerId, workerId), eq(auditJobs.status, "processing")))
+        .for("update");
+      if (!held) return false;
+
+      await tx.delete(auditPages).where(eq(auditPages.auditId, auditId));
+      await tx.delete(auditLinkEdges).where(eq(auditLinkEdges.auditId, auditId));
+      await tx.delete(auditLinks).where(eq(auditLinks.auditId, auditId));
+      for (let i = 0; i < results.pages.length; i += 500) {
+        await tx.insert(auditPages).values(results.pages.slice(i, i + 500));
+      }
+      for (let i = 0; i < results.edges.length; i += 1000) {
+        await tx.insert(auditLinkEdges).values(results.edges.slice(i, i + 1000));
+      }
+      for (let i = 0; i < results.links.length; i += 500) {
+        await tx.insert(auditLinks).values(results.links.slice(i, i + 500));
+      }
+      await tx.update(seoAudits).set(results.audit).where(eq(seoAudits.id, auditId));
+      return true;
+    });
+  }
+
   async createCreditTransaction(tx: InsertCreditTransaction): Promise<CreditTransaction> {
     const [created] = await db.insert(creditTransactions).values(tx).returning();
     return created;
@@ -163,6 +293,348 @@ export class DatabaseStorage implements IStorage {
   async getAllAudits(): Promise<SeoAudit[]> {
     return db.select().from(seoAudits).orderBy(desc(seoAudits.createdAt));
   }
+
+  async getProjectsByUser(userId: string): Promise<Project[]> {
+    return db.select().from(projects).where(eq(projects.userId, userId)).orderBy(projects.name);
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async findProjectByDomain(userId: string, domain: string): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.userId, userId), eq(projects.domain, domain)))
+      .orderBy(projects.createdAt)
+      .limit(1);
+    return project;
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const [created] = await db.insert(projects).values(project).returning();
+    return created;
+  }
+
+  async updateProject(id: number, data: Partial<InsertProject>): Promise<Project | undefined> {
+    const [updated] = await db
+      .update(projects)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getAuditsByProject(projectId: number): Promise<SeoAudit[]> {
+    return db.select().from(seoAudits).where(eq(seoAudits.projectId, projectId)).orderBy(asc(seoAudits.createdAt));
+  }
+
+  async getUnassignedAudits(userId: string): Promise<SeoAudit[]> {
+    return db.select().from(seoAudits).where(and(eq(seoAudits.userId, userId), isNull(seoAudits.projectId)));
+  }
+
+  async getRuleProfilesByUser(userId: string): Promise<RuleProfile[]> {
+    return db.select().from(ruleProfiles).where(eq(ruleProfiles.userId, userId)).orderBy(ruleProfiles.name);
+  }
+
+  async getRuleProfile(id: number): Promise<RuleProfile | undefined> {
+    const [profile] = await db.select().from(ruleProfiles).where(eq(ruleProfiles.id, id));
+    return profile;
+  }
+
+  async createRuleProfile(profile: InsertRuleProfile): Promise<RuleProfile> {
+    const [created] = await db.insert(ruleProfiles).values(profile).returning();
+    return created;
+  }
+
+  async updateRuleProfile(id: number, data: Pick<InsertRuleProfile, "name" | "rules">): Promise<RuleProfile | undefined> {
+    const [updated] = await db
+      .update(ruleProfiles)
+      .set({ ...data, version: sql`${ruleProfiles.version} + 1`, updatedAt: new Date() })
+      .where(eq(ruleProfiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRuleProfile(id: number): Promise<void> {
+    await db.delete(ruleProfiles).where(eq(ruleProfiles.id, id));
+  }
+
+  async getIssueSuppressions(userId: string, domain: string): Promise<IssueSuppression[]> {
+    return db
+      .select()
+      .from(issueSuppressions)
+      .where(and(eq(issueSuppressions.userId, userId), eq(issueSuppressions.domain, domain)))
+      .orderBy(desc(issueSuppressions.createdAt));
+  }
+
+  async getIssueSuppression(id: number): Promise<IssueSuppression | undefined> {
+    const [suppression] = await db.select().from(issueSuppressions).where(eq(issueSuppressions.id, id));
+    return suppression;
+  }
+
+  async createIssueSuppression(suppression: InsertIssueSuppression): Promise<IssueSuppression> {
+    const [created] = await db.insert(issueSuppressions).values(suppression).returning();
+    return created;
+  }
+
+  async deleteIssueSuppression(id: number): Promise<void> {
+    await db.delete(issueSuppressions).where(eq(issueSuppressions.id, id));
+  }
+
+  async createAuditJob(job: InsertAuditJob): Promise<AuditJobRecord> {
+    const [created] = await db.insert(auditJobs).values(job).returning();
+    return created;
+  }
+
+  async getAuditJob(auditId: number): Promise<AuditJobRecord | undefined> {
+    const [job] = await db.select().from(auditJobs).where(eq(auditJobs.auditId, auditId));
+    return job;
+  }
+
+  // Claims are serialized with an advisory lock so two workers can't both start a job for a user
+  // who has one slot left; SKIP LOCKED still keeps them off rows another transaction is changing.
+  async claimAuditJob(workerId: string): Promise<AuditJobRecord | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+      const [next] = await tx
+        .select({ id: auditJobs.id })
+        .from(auditJobs)
+        .where(
+          and(
+            eq(auditJobs.status, "pending"),
+            sql`(select count(*) from ${auditJobs} running where running.user_id = ${auditJobs.userId} and running.status = 'processing') < ${auditJobs.maxRunning}`,
+          ),
+        )
+        .orderBy(desc(auditJobs.priority), asc(auditJobs.createdAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const now = new Date();
+      const [claimed] = await tx
+        .update(auditJobs)
+        .set({
+          status: "processing",
+          workerId,
+          attempts: sql`${auditJobs.attempts} + 1`,
+          heartbeatAt: now,
+          startedAt: now,
+        })
+        .where(eq(auditJobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async getQueuePosition(auditId: number): Promise<number | null> {
+    const job = await this.getAuditJob(auditId);
+    if (!job || job.status !== "pending") return null;
+    const [{ ahead }] = await db
+      .select({ ahead: sql<number>`count(*)::int` })
+      .from(auditJobs)
+      .where(
+        and(
+          eq(auditJobs.status, "pending"),
+          or(
+            gt(auditJobs.priority, job.priority),
+            and(eq(auditJobs.priority, job.priority), lt(auditJobs.createdAt, job.createdAt)),
+          ),
+        ),
+      );
+    return ahead + 1;
+  }
+
+  // With a `workerId`, only updates the job while that worker still holds it. The events are written
+  // in the same transaction, so an event stream never sees the job finish before its last events.
+  async updateAuditJob(
+    auditId: number,
+    data: Partial<AuditJobRecord>,
+    workerId?: string,
+    events: AuditEvent[] = [],
+  ): Promise<AuditJobRecord | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(auditJobs)
+        .set(data)
+        .where(
+          workerId
+            ? and(eq(auditJobs.auditId, auditId), eq(auditJobs.workerId, workerId), eq(auditJobs.status, "processing"))
+            : eq(auditJobs.auditId, auditId),
+        )
+        .returning();
+      if (updated && events.length > 0) {
+        await tx.insert(auditEvents).values(events.map((event) => ({ auditId, type: event.type, data: event })));
+      }
+      return updated;
+    });
+  }
+
+  async heartbeatAuditJob(auditId: number, workerId: string): Promise<AuditJobRecord | undefined> {
+    const [updated] = await db
+      .update(auditJobs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(auditJobs.auditId, auditId), eq(auditJobs.workerId, workerId), eq(auditJobs.status, "processing")))
+      .returning();
+    return updated;
+  }
+
+  async cancelPendingAuditJob(auditId: number): Promise<AuditJobRecord | undefined> {
+    const [cancelled] = await db
+      .update(auditJobs)
+      .set({
+        status: "cancelled",
+        progress: { stage: "cancelled", message: "Audit cancelled", percent: 0 },
+        finishedAt: new Date(),
+      })
+      .where(and(eq(auditJobs.auditId, auditId), eq(auditJobs.status, "pending")))
+      .returning();
+    return cancelled;
+  }
+
+  async requestAuditJobCancel(auditId: number): Promise<AuditJobRecord | undefined> {
+    const [updated] = await db
+      .update(auditJobs)
+      .set({ cancelRequestedAt: new Date() })
+      .where(and(eq(auditJobs.auditId, auditId), eq(auditJobs.status, "processing")))
+      .returning();
+    return updated;
+  }
+
+  async getAuditsWithoutJob(statuses: string[]): Promise<SeoAudit[]> {
+    const rows = await db
+      .select({ audit: seoAudits })
+      .from(seoAudits)
+      .leftJoin(auditJobs, eq(auditJobs.auditId, seoAudits.id))
+      .where(and(inArray(seoAudits.status, statuses), isNull(auditJobs.id)));
+    return rows.map((row) => row.audit);
+  }
+
+  async getStaleAuditJobs(heartbeatBefore: Date): Promise<AuditJobRecord[]> {
+    return db
+      .select()
+      .from(auditJobs)
+      .where(and(eq(auditJobs.status, "processing"), lt(auditJobs.heartbeatAt, heartbeatBefore)));
+  }
+
+  // Only updates the job if it is still stale, so two processes never recover the same job.
+  async recoverAuditJob(auditId: number, heartbeatBefore: Date, data: Partial<AuditJobRecord>): Promise<AuditJobRecord | undefined> {
+    const [updated] = await db
+      .update(auditJobs)
+      .set(data)
+      .where(and(
+        eq(auditJobs.auditId, auditId),
+        eq(auditJobs.status, "processing"),
+        lt(auditJobs.heartbeatAt, heartbeatBefore),
+      ))
+      .returning();
+    return updated;
+  }
+
+  async createAuditEvent(auditId: number, event: AuditEvent): Promise<AuditEventRecord> {
+    const [created] = await db.insert(auditEvents).values({ auditId, type: event.type, data: event }).returning();
+    return created;
+  }
+
+  async getAuditEvents(auditId: number, afterId: number = 0): Promise<AuditEventRecord[]> {
+    return db
+      .select()
+      .from(auditEvents)
+      .where(and(eq(auditEvents.auditId, auditId), gt(auditEvents.id, afterId)))
+      .orderBy(asc(auditEvents.id));
+  }
+
+  async getAiFixCacheEntries(inputHashes: string[], model: string, promptVersion: number): Promise<AiFixCacheEntry[]> {
+    if (inputHashes.length === 0) return [];
+    return db
+      .select()
+      .from(aiFixCache)
+      .where(
+        and(
+          inArray(aiFixCache.inputHash, inputHashes),
+          eq(aiFixCache.model, model),
+          eq(aiFixCache.promptVersion, promptVersion),
+        ),
+      );
+  }
+
+  async saveAiFixCacheEntry(entry: InsertAiFixCacheEntry): Promise<void> {
+    await db
+      .insert(aiFixCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [aiFixCache.inputHash, aiFixCache.model, aiFixCache.promptVersion],
+        set: { fix: entry.fix, createdAt: new Date() },
+      });
+  }
+
+  async getSchedulesByProject(projectId: number): Promise<AuditSchedule[]> {
+    return db.select().from(auditSchedules).where(eq(auditSchedules.projectId, projectId)).orderBy(auditSchedules.createdAt);
+  }
+
+  async getAuditSchedule(id: number): Promise<AuditSchedule | undefined> {
+    const [schedule] = await db.select().from(auditSchedules).where(eq(auditSchedules.id, id));
+    return schedule;
+  }
+
+  async getDueSchedules(now: Date): Promise<AuditSchedule[]> {
+    return db
+      .select()
+      .from(auditSchedules)
+      .where(and(eq(auditSchedules.status, "active"), lte(auditSchedules.nextRunAt, now)))
+      .orderBy(auditSchedules.nextRunAt);
+  }
+
+  // Moves a due schedule on to its next run only if no other process has done so since it was read.
+  async claimDueSchedule(id: number, seenNextRunAt: Date, nextRunAt: Date): Promise<AuditSchedule | undefined> {
+    const [claimed] = await db
+      .update(auditSchedules)
+      .set({ nextRunAt, updatedAt: new Date() })
+      .where(and(eq(auditSchedules.id, id), eq(auditSchedules.status, "active"), eq(auditSchedules.nextRunAt, seenNextRunAt)))
+      .returning();
+    return claimed;
+  }
+
+  async createAuditSchedule(schedule: InsertAuditSchedule): Promise<AuditSchedule> {
+    const [created] = await db.insert(auditSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async updateAuditSchedule(id: number, data: Partial<AuditSchedule>): Promise<AuditSchedule | undefined> {
+    const [updated] = await db
+      .update(auditSchedules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(auditSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAuditSchedule(id: number): Promise<void> {
+    await db.delete(auditSchedules).where(eq(auditSchedules.id, id));
+  }
+
+  async putBlob(key: string, data: Buffer, contentType: string): Promise<void> {
+    await db
+      .insert(blobs)
+      .values({ key, data, contentType })
+      .onConflictDoUpdate({ target: blobs.key, set: { data, contentType, createdAt: new Date() } });
+  }
+
+  async getBlob(key: string): Promise<Blob | undefined> {
+    const [blob] = await db.select().from(blobs).where(eq(blobs.key, key));
+    return blob;
+  }
+
+  async getBlobKeys(prefix: string): Promise<string[]> {
+    const rows = await db.select({ key: blobs.key }).from(blobs).where(sql`starts_with(${blobs.key}, ${prefix})`);
+    return rows.map((row) => row.key);
+  }
+
+  async deleteBlob(key: string): Promise<void> {
+    await db.delete(blobs).where(eq(blobs.key, key));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,26 @@
+import { pool } from "./db";
+import { startWorker, stopWorker } from "./lib/worker";
+import { isSchedulerEnabled, startScheduler, stopScheduler } from "./lib/scheduler";
+
+// Standalone worker process: consumes audit jobs and runs schedules, without serving HTTP.
+// Pair it with a web process started with WORKER_MODE=external; both use the same DATABASE_URL.
+
+const SHUTDOWN_TIMEOUT_MS = 30_000;
+
+let shuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[Worker] Received ${signal}, shutting down`);
+  stopScheduler();
+  await stopWorker(SHUTDOWN_TIMEOUT_MS);
+  await pool.end();
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
+startWorker();
+if (isSchedulerEnabled()) startScheduler();
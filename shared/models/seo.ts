@@ -1,9 +1,184 @@
 import { sql } from "drizzle-orm";
-import { pgTable, serial, text, varchar, integer, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, varchar, integer, boolean, doublePrecision, timestamp, jsonb, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "./auth";
 
+export const waitStrategies = ["domcontentloaded", "load", "networkidle"] as const;
+
+export const auditConfigSchema = z.object({
+  maxPages: z.number().int().min(1).max(500).default(20),
+  maxDepth: z.number().int().min(0).max(20).default(5),
+  includePatterns: z.array(z.string().min(1).max(200)).max(20).default([]),
+  excludePatterns: z.array(z.string().min(1).max(200)).max(20).default([]),
+  userAgent: z.string().min(1).max(300).default("DevSEO-AI/1.0 (SEO Crawler)"),
+  viewport: z
+    .object({
+      width: z.number().int().min(320).max(3840),
+      height: z.number().int().min(240).max(2160),
+    })
+    .default({ width: 1280, height: 720 }),
+  renderJs: z.boolean().default(true),
+  useSitemap: z.boolean().default(true),
+  checkLinks: z.boolean().default(true),
+  mobile: z.boolean().default(false),
+  waitStrategy: z.enum(waitStrategies).default("domcontentloaded"),
+  aiFixes: z.boolean().default(true),
+});
+
+export type AuditConfig = z.infer<typeof auditConfigSchema>;
+export type AuditConfigInput = z.input<typeof auditConfigSchema>;
+
+export interface IssueOccurrence {
+  selector: string;
+  snippet: string;
+  attribute?: { name: string; value: string };
+}
+
+export const ruleSettingSchema = z.object({
+  enabled: z.boolean().default(true),
+  severity: z.enum(["critical", "warning", "info"]).nullable().default(null),
+  thresholds: z.record(z.string(), z.number().min(0)).default({}),
+  exceptions: z.array(z.string().min(1).max(200)).max(50).default([]),
+});
+
+export const ruleSettingsSchema = z.record(z.string(), ruleSettingSchema);
+
+export type RuleSetting = z.infer<typeof ruleSettingSchema>;
+export type RuleSettings = z.infer<typeof ruleSettingsSchema>;
+
+/** Snapshot of the rule profile an audit ran with, so later edits to the profile don't rewrite history. */
+export interface AppliedRuleProfile {
+  id: number;
+  name: string;
+  version: number;
+  rules: RuleSettings;
+}
+
+export const suppressionScopes = ["url", "pattern", "site"] as const;
+export type SuppressionScope = (typeof suppressionScopes)[number];
+
+export const scheduleFrequencies = ["daily", "weekly", "cron"] as const;
+export type ScheduleFrequency = (typeof scheduleFrequencies)[number];
+
+export const scheduleStatuses = ["active", "paused"] as const;
+export type ScheduleStatus = (typeof scheduleStatuses)[number];
+
+export const jobStatuses = ["pending", "processing", "completed", "failed", "cancelled"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+export interface JobProgress {
+  stage: "queued" | "crawling" | "analyzing" | "fixing" | "saving" | "done" | "error" | "cancelled";
+  message: string;
+  percent: number;
+}
+
+/** What the fix prompt asks the model to return. Length and content rules are checked in `server/lib/fixValidation.ts`. */
+export const aiFixOutputSchema = z.object({
+  optimizedTitle: z.string().trim().min(1),
+  optimizedMetaDescription: z.string().trim().min(1),
+  improvedH1: z.string().trim().min(1),
+  jsonLdSchema: z
+    .object({
+      "@context": z.string(),
+      "@type": z.union([z.string(), z.array(z.string()).min(1)]),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      url: z.string(),
+    })
+    .passthrough(),
+  suggestedInternalLinkingText: z.string().trim().min(1),
+});
+
+export type AiFixOutput = z.infer<typeof aiFixOutputSchema>;
+
+export interface AiFixValidation {
+  status: "passed" | "failed";
+  /** Problems with the final fix; empty when it passed. */
+  errors: string[];
+  /** Model calls it took, re-prompts included. 0 for fallback fixes. */
+  attempts: number;
+}
+
+export interface AiFix {
+  pageUrl: string;
+  optimizedTitle: string;
+  optimizedMetaDescription: string;
+  improvedH1: string;
+  jsonLdSchema: Record<string, any>;
+  suggestedInternalLinkingText: string;
+  /** Missing on fixes generated before validation was added. */
+  validation?: AiFixValidation;
+}
+
+export type ScreenshotHighlightKind = "h1" | "image_missing_alt" | "horizontal_overflow";
+
+/** An element worth pointing out on a screenshot, in page pixels. */
+export interface ScreenshotHighlight {
+  kind: ScreenshotHighlightKind;
+  selector: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageScreenshot {
+  /** Blob store key of the JPEG. */
+  key: string;
+  width: number;
+  height: number;
+  highlights: ScreenshotHighlight[];
+}
+
+export interface PageScreenshots {
+  desktop: PageScreenshot | null;
+  mobile: PageScreenshot | null;
+}
+
+/** Streamed to the audit page while a job runs; stored in `audit_events` so any process can serve them. */
+export type AuditEvent =
+  | ({ type: "progress" } & JobProgress)
+  | { type: "page"; url: string; httpStatus: number | null; depth: number; crawled: number; maxPages: number; error?: string }
+  | { type: "issues"; total: number; critical: number; warnings: number; info: number }
+  | { type: "fix"; pageUrl: string; index: number; total: number; fallback: boolean; cached: boolean }
+  | { type: "error"; message: string };
+
+export type AuditEventType = AuditEvent["type"];
+
+export interface PlanLimits {
+  maxPages: number;
+  maxDepth: number;
+  aiFixes: boolean;
+  scheduling: boolean;
+  /** Higher-priority jobs are claimed first; equal priorities run in submission order. */
+  queuePriority: number;
+  /** How many of the user's audits may run at once. */
+  maxRunningJobs: number;
+}
+
+export const planLimits: Record<string, PlanLimits> = {
+  free: { maxPages: 20, maxDepth: 3, aiFixes: false, scheduling: false, queuePriority: 0, maxRunningJobs: 1 },
+  starter: { maxPages: 50, maxDepth: 5, aiFixes: true, scheduling: false, queuePriority: 1, maxRunningJobs: 1 },
+  pro: { maxPages: 200, maxDepth: 10, aiFixes: true, scheduling: true, queuePriority: 2, maxRunningJobs: 2 },
+  agency: { maxPages: 500, maxDepth: 20, aiFixes: true, scheduling: true, queuePriority: 3, maxRunningJobs: 4 },
+};
+
+export function getPlanLimits(plan: string | null | undefined): PlanLimits {
+  return planLimits[plan ?? "free"] ?? planLimits.free;
+}
+
+export function resolveAuditConfig(input: AuditConfigInput | null | undefined, plan: string | null | undefined): AuditConfig {
+  const config = auditConfigSchema.parse(input ?? {});
+  const limits = getPlanLimits(plan);
+  return {
+    ...config,
+    maxPages: Math.min(config.maxPages, limits.maxPages),
+    maxDepth: Math.min(config.maxDepth, limits.maxDepth),
+    aiFixes: config.aiFixes && limits.aiFixes,
+  };
+}
+
 export const userProfiles = pgTable("user_profiles", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id).unique(),
@@ -19,9 +194,38 @@ export const userProfiles = pgTable("user_profiles", {
   index("idx_user_profiles_stripe_customer_id").on(table.stripeCustomerId),
 ]);
 
+export const ruleProfiles = pgTable("rule_profiles", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 100 }).notNull(),
+  version: integer("version").notNull().default(1),
+  rules: jsonb("rules").$type<RuleSettings>().notNull().default({}),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_rule_profiles_user_id").on(table.userId),
+]);
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 100 }).notNull(),
+  rootUrl: text("root_url").notNull(),
+  domain: varchar("domain", { length: 500 }).notNull(),
+  config: jsonb("config").$type<AuditConfigInput>().notNull().default({}),
+  ruleProfileId: integer("rule_profile_id").references(() => ruleProfiles.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_projects_user_id").on(table.userId),
+  index("idx_projects_user_domain").on(table.userId, table.domain),
+]);
+
 export const seoAudits = pgTable("seo_audits", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id),
+  scheduleId: integer("schedule_id").references(() => auditSchedules.id, { onDelete: "set null" }),
   url: text("url").notNull(),
   domain: varchar("domain", { length: 500 }),
   status: varchar("status", { length: 20 }).notNull().default("pending"),
@@ -33,12 +237,21 @@ export const seoAudits = pgTable("seo_audits", {
   pagesCrawled: integer("pages_crawled").default(0),
   issuesFound: integer("issues_found").default(0),
   fixesGenerated: integer("fixes_generated").default(0),
+  /** How many of `fixesGenerated` were reused from `ai_fix_cache` instead of asking the model. */
+  fixesCached: integer("fixes_cached").default(0),
+  aiPromptTokens: integer("ai_prompt_tokens").default(0),
+  aiCompletionTokens: integer("ai_completion_tokens").default(0),
+  /** Estimated from LLM_*_PRICE_PER_MTOK; null when no prices are configured. */
+  aiCostUsd: doublePrecision("ai_cost_usd"),
+  config: jsonb("config").$type<AuditConfig>(),
+  ruleProfile: jsonb("rule_profile").$type<AppliedRuleProfile>(),
   results: jsonb("results"),
   summary: text("summary"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   completedAt: timestamp("completed_at"),
 }, (table) => [
   index("idx_seo_audits_user_id").on(table.userId),
+  index("idx_seo_audits_project_id").on(table.projectId),
   index("idx_seo_audits_status").on(table.status),
   index("idx_seo_audits_domain").on(table.domain),
   index("idx_seo_audits_created_at").on(table.createdAt),
@@ -48,19 +261,61 @@ export const auditPages = pgTable("audit_pages", {
   id: serial("id").primaryKey(),
   auditId: integer("audit_id").notNull().references(() => seoAudits.id, { onDelete: "cascade" }),
   url: text("url").notNull(),
+  finalUrl: text("final_url"),
+  httpStatus: integer("http_status"),
+  redirectChain: jsonb("redirect_chain"),
+  contentType: varchar("content_type", { length: 255 }),
+  responseHeaders: jsonb("response_headers"),
+  indexable: boolean("indexable").notNull().default(true),
+  robotsDirectives: jsonb("robots_directives"),
   title: text("title"),
   metaDescription: text("meta_description"),
   headings: jsonb("headings"),
   wordCount: integer("word_count").default(0),
   internalLinks: integer("internal_links").default(0),
   externalLinks: integer("external_links").default(0),
+  inboundLinks: integer("inbound_links").default(0),
+  clickDepth: integer("click_depth"),
+  pageRank: doublePrecision("page_rank"),
   images: integer("images").default(0),
   schemaDetected: jsonb("schema_detected"),
+  performance: jsonb("performance"),
+  performanceScore: integer("performance_score"),
+  mobile: jsonb("mobile"),
+  screenshots: jsonb("screenshots").$type<PageScreenshots>(),
   issues: jsonb("issues"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 }, (table) => [
   index("idx_audit_pages_audit_id").on(table.auditId),
   index("idx_audit_pages_url").on(table.url),
+  index("idx_audit_pages_http_status").on(table.httpStatus),
+]);
+
+export const auditLinks = pgTable("audit_links", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => seoAudits.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  internal: boolean("internal").notNull().default(false),
+  status: integer("status"),
+  error: text("error"),
+  broken: boolean("broken").notNull().default(false),
+  sources: jsonb("sources").$type<Array<{ pageUrl: string; anchorText: string }>>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_audit_links_audit_id").on(table.auditId),
+  index("idx_audit_links_broken").on(table.auditId, table.broken),
+]);
+
+export const auditLinkEdges = pgTable("audit_link_edges", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => seoAudits.id, { onDelete: "cascade" }),
+  sourceUrl: text("source_url").notNull(),
+  targetUrl: text("target_url").notNull(),
+  anchorText: text("anchor_text"),
+  nofollow: boolean("nofollow").notNull().default(false),
+}, (table) => [
+  index("idx_audit_link_edges_audit_id").on(table.auditId),
+  index("idx_audit_link_edges_target").on(table.auditId, table.targetUrl),
 ]);
 
 export const creditTransactions = pgTable("credit_transactions", {
@@ -76,6 +331,99 @@ export const creditTransactions = pgTable("credit_transactions", {
   index("idx_credit_transactions_audit_id").on(table.auditId),
 ]);
 
+export const issueSuppressions = pgTable("issue_suppressions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  domain: varchar("domain", { length: 500 }).notNull(),
+  issueType: varchar("issue_type", { length: 100 }).notNull(),
+  scope: varchar("scope", { length: 20 }).$type<SuppressionScope>().notNull(),
+  fingerprint: varchar("fingerprint", { length: 64 }),
+  urlPattern: text("url_pattern"),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_issue_suppressions_user_domain").on(table.userId, table.domain),
+]);
+
+export const auditJobs = pgTable("audit_jobs", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => seoAudits.id, { onDelete: "cascade" }).unique(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  status: varchar("status", { length: 20 }).$type<JobStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  // Copied from the user's plan at enqueue time.
+  priority: integer("priority").notNull().default(0),
+  maxRunning: integer("max_running").notNull().default(1),
+  progress: jsonb("progress").$type<JobProgress>().notNull(),
+  workerId: varchar("worker_id", { length: 200 }),
+  heartbeatAt: timestamp("heartbeat_at"),
+  cancelRequestedAt: timestamp("cancel_requested_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("idx_audit_jobs_status_priority_created_at").on(table.status, table.priority, table.createdAt),
+  index("idx_audit_jobs_user_status").on(table.userId, table.status),
+]);
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => seoAudits.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 20 }).$type<AuditEventType>().notNull(),
+  data: jsonb("data").$type<AuditEvent>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_audit_events_audit_id").on(table.auditId, table.id),
+]);
+
+// Generated fixes keyed by a hash of the fix prompt's inputs, so re-audits of unchanged pages skip the model.
+export const aiFixCache = pgTable("ai_fix_cache", {
+  id: serial("id").primaryKey(),
+  inputHash: varchar("input_hash", { length: 64 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  promptVersion: integer("prompt_version").notNull(),
+  fix: jsonb("fix").$type<AiFix>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  uniqueIndex("idx_ai_fix_cache_key").on(table.inputHash, table.model, table.promptVersion),
+]);
+
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Backs the database blob store, which web and worker processes share when they don't share a disk.
+export const blobs = pgTable("blobs", {
+  key: text("key").primaryKey(),
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  data: bytea("data").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const auditSchedules = pgTable("audit_schedules", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  frequency: varchar("frequency", { length: 20 }).$type<ScheduleFrequency>().notNull(),
+  hour: integer("hour").notNull().default(0),
+  dayOfWeek: integer("day_of_week"),
+  cronExpression: varchar("cron_expression", { length: 100 }),
+  status: varchar("status", { length: 20 }).$type<ScheduleStatus>().notNull().default("active"),
+  pausedReason: text("paused_reason"),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastAuditId: integer("last_audit_id"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_audit_schedules_project_id").on(table.projectId),
+  index("idx_audit_schedules_due").on(table.status, table.nextRunAt),
+]);
+
 export const insertAuditSchema = createInsertSchema(seoAudits).omit({
   id: true,
   createdAt: true,
@@ -88,6 +436,10 @@ export const insertAuditSchema = createInsertSchema(seoAudits).omit({
   pagesCrawled: true,
   issuesFound: true,
   fixesGenerated: true,
+  fixesCached: true,
+  aiPromptTokens: true,
+  aiCompletionTokens: true,
+  aiCostUsd: true,
   results: true,
   summary: true,
   status: true,
@@ -98,11 +450,72 @@ export const insertAuditPageSchema = createInsertSchema(auditPages).omit({
   createdAt: true,
 });
 
+export const insertAuditLinkSchema = createInsertSchema(auditLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditLinkEdgeSchema = createInsertSchema(auditLinkEdges).omit({
+  id: true,
+});
+
 export const insertCreditTransactionSchema = createInsertSchema(creditTransactions).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: z.string().trim().min(1).max(100),
+  rootUrl: z.string().url(),
+  config: auditConfigSchema.partial(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRuleProfileSchema = createInsertSchema(ruleProfiles, {
+  name: z.string().trim().min(1).max(100),
+  rules: ruleSettingsSchema,
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertIssueSuppressionSchema = createInsertSchema(issueSuppressions, {
+  scope: z.enum(suppressionScopes),
+  reason: z.string().trim().min(1).max(500),
+  urlPattern: z.string().trim().min(1).max(200).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditJobSchema = createInsertSchema(auditJobs, {
+  status: z.enum(jobStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditScheduleSchema = createInsertSchema(auditSchedules, {
+  frequency: z.enum(scheduleFrequencies),
+  hour: z.number().int().min(0).max(23),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  cronExpression: z.string().trim().min(1).max(100).nullable().optional(),
+}).omit({
+  id: true,
+  status: true,
+  pausedReason: true,
+  consecutiveFailures: true,
+  lastRunAt: true,
+  lastAuditId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
   id: true,
   createdAt: true,
@@ -112,7 +525,25 @@ export type SeoAudit = typeof seoAudits.$inferSelect;
 export type InsertSeoAudit = z.infer<typeof insertAuditSchema>;
 export type AuditPage = typeof auditPages.$inferSelect;
 export type InsertAuditPage = z.infer<typeof insertAuditPageSchema>;
+export type AuditLink = typeof auditLinks.$inferSelect;
+export type InsertAuditLink = z.infer<typeof insertAuditLinkSchema>;
+export type AuditLinkEdge = typeof auditLinkEdges.$inferSelect;
+export type InsertAuditLinkEdge = z.infer<typeof insertAuditLinkEdgeSchema>;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type RuleProfile = typeof ruleProfiles.$inferSelect;
+export type InsertRuleProfile = z.infer<typeof insertRuleProfileSchema>;
+export type IssueSuppression = typeof issueSuppressions.$inferSelect;
+export type InsertIssueSuppression = z.infer<typeof insertIssueSuppressionSchema>;
+export type AuditJobRecord = typeof auditJobs.$inferSelect;
+export type InsertAuditJob = z.infer<typeof insertAuditJobSchema>;
+export type AuditEventRecord = typeof auditEvents.$inferSelect;
+export type AiFixCacheEntry = typeof aiFixCache.$inferSelect;
+export type InsertAiFixCacheEntry = typeof aiFixCache.$inferInsert;
+export type Blob = typeof blobs.$inferSelect;
+export type AuditSchedule = typeof auditSchedules.$inferSelect;
+export type InsertAuditSchedule = z.infer<typeof insertAuditScheduleSchema>;
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;